@@ -0,0 +1,333 @@
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { basename, dirname, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { read as readShapefile } from 'shapefile'
+import { quantize } from 'topojson-client'
+import { topology } from 'topojson-server'
+import { presimplify, quantile, simplify, sphericalTriangleArea } from 'topojson-simplify'
+
+// Regenera los datos que consume la app (src/data) a partir de las fuentes oficiales:
+// - BD_Municipios-Entidades (INE/IGN, CSV en Latin-1) -> provincias.json, municipios.json,
+//   eatims.json, comjuridic.json y entidades.json
+// - lineas_limite/SHP_ETRS89 (IGN, shapefiles) -> es_ccaa, es_provincias y es_municipios .topo.json
+// y deja en data-manifest.json la huella de cada fuente y de cada salida.
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const root = resolve(__dirname, '..')
+const dataDir = resolve(root, 'src', 'data')
+const csvDir = resolve(dataDir, 'BD_Municipios-Entidades')
+const limitesDir = resolve(dataDir, 'lineas_limite')
+
+const { values: opciones } = parseArgs({
+  options: {
+    // Fracción de vértices que se conserva al simplificar (1 = sin simplificar)
+    retener: { type: 'string', default: '0.12' },
+    cuantizacion: { type: 'string', default: '1e5' },
+    'solo-metadatos': { type: 'boolean', default: false }
+  }
+})
+
+const retener = Number(opciones.retener)
+const cuantizacion = Number(opciones.cuantizacion)
+if (!(retener > 0 && retener <= 1)) {
+  console.error('--retener debe estar entre 0 (excluido) y 1')
+  process.exit(1)
+}
+if (!(cuantizacion >= 2)) {
+  console.error('--cuantizacion debe ser un número mayor o igual que 2')
+  process.exit(1)
+}
+
+// Solo se leen las capas peninsulares y de Baleares: las de Canarias (SHP_REGCAN95) vienen en
+// otro sistema de referencia y no se procesan, así que los TopoJSON no tienen sus recintos
+const CAPAS = [
+  { salida: 'es_ccaa.topo.json', capa: 'recintos_autonomicas_inspire_peninbal_etrs89' },
+  { salida: 'es_provincias.topo.json', capa: 'recintos_provinciales_inspire_peninbal_etrs89' },
+  { salida: 'es_municipios.topo.json', capa: 'recintos_municipales_inspire_peninbal_etrs89' }
+]
+
+const sha256 = (ruta) => createHash('sha256').update(readFileSync(ruta)).digest('hex')
+const rutaRelativa = (ruta) => relative(root, ruta).split('\\').join('/')
+
+const huella = (ruta) => ({
+  ruta: rutaRelativa(ruta),
+  bytes: readFileSync(ruta).byteLength,
+  sha256: sha256(ruta)
+})
+
+// CSV separados por ';' con comillas dobles opcionales (COMJURIDIC trae listas entrecomilladas)
+const parseCsv = (texto) => {
+  const filas = []
+  let fila = []
+  let campo = ''
+  let entreComillas = false
+
+  for (let i = 0; i < texto.length; i += 1) {
+    const caracter = texto[i]
+    if (entreComillas) {
+      if (caracter === '"' && texto[i + 1] === '"') {
+        campo += '"'
+        i += 1
+      } else if (caracter === '"') {
+        entreComillas = false
+      } else {
+        campo += caracter
+      }
+    } else if (caracter === '"') {
+      entreComillas = true
+    } else if (caracter === ';') {
+      fila.push(campo)
+      campo = ''
+    } else if (caracter === '\n' || caracter === '\r') {
+      if (caracter === '\r' && texto[i + 1] === '\n') i += 1
+      fila.push(campo)
+      if (fila.some((valor) => valor !== '')) filas.push(fila)
+      fila = []
+      campo = ''
+    } else {
+      campo += caracter
+    }
+  }
+  fila.push(campo)
+  if (fila.some((valor) => valor !== '')) filas.push(fila)
+
+  const [cabecera, ...registros] = filas
+  return registros.map((valores) =>
+    Object.fromEntries(cabecera.map((columna, indice) => [columna.trim(), (valores[indice] ?? '').trim()]))
+  )
+}
+
+const leerCsvLatin1 = (nombre) => {
+  const ruta = resolve(csvDir, nombre)
+  return parseCsv(new TextDecoder('latin1').decode(readFileSync(ruta)))
+}
+
+// Los CSV usan coma decimal ("1994,5872")
+const aNumero = (valor) => {
+  if (!valor) return undefined
+  const numero = Number(valor.replace(',', '.'))
+  return Number.isFinite(numero) ? numero : undefined
+}
+
+const sinVacios = (registro) =>
+  Object.fromEntries(
+    Object.entries(registro).filter(([, valor]) => valor !== undefined && valor !== '')
+  )
+
+const escribirJson = (nombre, datos) => {
+  const ruta = resolve(dataDir, nombre)
+  writeFileSync(ruta, `${JSON.stringify(datos, null, 2)}\n`)
+  return ruta
+}
+
+const generarProvincias = () =>
+  leerCsvLatin1('PROVINCIAS.csv').map((registro) => ({
+    COD_PROV: registro.COD_PROV.padStart(2, '0'),
+    PROVINCIA: registro.PROVINCIA,
+    COD_CA: registro.COD_CA.padStart(2, '0'),
+    COMUNIDAD_AUTONOMA: registro.COMUNIDAD_AUTONOMA,
+    CAPITAL: registro.CAPITAL
+  }))
+
+const generarMunicipios = () =>
+  leerCsvLatin1('MUNICIPIOS.csv').map((registro) =>
+    sinVacios({
+      COD_INE: registro.COD_INE,
+      COD_PROV: registro.COD_PROV.padStart(2, '0'),
+      PROVINCIA: registro.PROVINCIA,
+      NOMBRE_ACTUAL: registro.NOMBRE_ACTUAL,
+      POBLACION_MUNI: aNumero(registro.POBLACION_MUNI),
+      // Hectáreas, como en la fuente: municipioRepository las pasa a km²
+      SUPERFICIE: aNumero(registro.SUPERFICIE),
+      COD_INE_CAPITAL: registro.COD_INE_CAPITAL,
+      CAPITAL: registro.CAPITAL,
+      POBLACION_CAPITAL: aNumero(registro.POBLACION_CAPITAL),
+      LONGITUD_ETRS89: aNumero(registro.LONGITUD_ETRS89),
+      LATITUD_ETRS89: aNumero(registro.LATITUD_ETRS89),
+      ALTITUD: aNumero(registro.ALTITUD)
+    })
+  )
+
+// Entidades de ámbito territorial inferior al municipio; INEMUNICIPIO son los 5 primeros
+// dígitos del COD_INE de su municipio
+const generarEatims = () =>
+  leerCsvLatin1('EATIMS.csv').map((registro) =>
+    sinVacios({
+      CODINE: registro.CODINE,
+      INEMUNICIPIO: registro.INEMUNICIPIO.padStart(5, '0'),
+      COD_PROV: registro.CODPROV.padStart(2, '0'),
+      DENOMINACION: registro.DENOMINACION,
+      LONGITUD_ETRS89: aNumero(registro.LONGITUD_ETRS89),
+      LATITUD_ETRS89: aNumero(registro.LATITUD_ETRS89),
+      ALTITUD: aNumero(registro.ALTITUD)
+    })
+  )
+
+// Entidades singulares de población (núcleos, diseminados...). ENTIDADES.csv no se incluye en
+// el repositorio por su tamaño: sin él se conserva el entidades.json existente
+const generarEntidades = () => {
+  if (!existsSync(resolve(csvDir, 'ENTIDADES.csv'))) return undefined
+  return leerCsvLatin1('ENTIDADES.csv').map((registro) =>
+    sinVacios({
+      CODIGOINE: registro.CODIGOINE,
+      INEMUNICIPIO: (registro.INEMUNI || registro.CODIGOINE.slice(0, 5)).padStart(5, '0'),
+      NOMBRE: registro.NOMBRE,
+      TIPO: registro.TIPO,
+      POBLACION: aNumero(registro.POBLACION),
+      LONGITUD_ETRS89: aNumero(registro.LONGITUD_ETRS89),
+      LATITUD_ETRS89: aNumero(registro.LATITUD_ETRS89),
+      ALTITUD: aNumero(registro.ALTITUD)
+    })
+  )
+}
+
+// Listas separadas por ';' dentro de un campo; idINES empieza con '*' como marcador
+const aLista = (valor) =>
+  (valor ?? '')
+    .split(';')
+    .map((elemento) => elemento.trim())
+    .filter((elemento) => elemento && elemento !== '*')
+
+// Territorios de jurisdicción compartida (parzonerías, comunidades de villa y tierra...)
+const generarComunidadesJuridicas = () =>
+  leerCsvLatin1('COMJURIDIC.csv').map((registro) =>
+    sinVacios({
+      ID: registro.idCon,
+      NOMBRE_ACTUAL: registro.NOMBRE_ACTUAL,
+      PROVINCIA: registro.PROVINCIA,
+      MUNICIPIOS: aLista(registro.MUNICIPIOS),
+      INE_MUNICIPIOS: aLista(registro.idINES).map((codigo) => codigo.padStart(5, '0')),
+      // Hectáreas, como SUPERFICIE en municipios.json
+      SUPERFICIE: aNumero(registro.SUPERFICIE),
+      LONGITUD_ETRS89: aNumero(registro.LONGITUD_ETRS89),
+      LATITUD_ETRS89: aNumero(registro.LATITUD_ETRS89)
+    })
+  )
+
+const rutasShapefile = (capa) => {
+  const base = resolve(limitesDir, 'SHP_ETRS89', capa, capa)
+  return { shp: `${base}.shp`, dbf: `${base}.dbf` }
+}
+
+const generarTopologia = async ({ capa }) => {
+  const { shp, dbf } = rutasShapefile(capa)
+  const geojson = await readShapefile(shp, dbf, { encoding: 'utf-8' })
+  // presimplify trabaja en coordenadas absolutas: se cuantiza otra vez tras simplificar
+  const topo = presimplify(topology({ [capa]: geojson }), sphericalTriangleArea)
+  const simplificada = retener < 1 ? simplify(topo, quantile(topo, retener)) : simplify(topo, 0)
+  return quantize(simplificada, cuantizacion)
+}
+
+// Versión de las fuentes: la de la memoria del NGMEP y la fecha de los metadatos del IGN
+const versionCsv = () => {
+  const memoria = readdirSync(csvDir).find((nombre) => /^Memoria_NGMEP_\d+\.pdf$/.test(nombre))
+  return memoria ? `NGMEP ${memoria.match(/\d+/)[0]}` : 'desconocida'
+}
+
+const versionLimites = () => {
+  const metadatos = readdirSync(limitesDir).find((nombre) => nombre.endsWith('.xml'))
+  if (!metadatos) return 'desconocida'
+  const fecha = readFileSync(resolve(limitesDir, metadatos), 'utf8').match(
+    /<gco:Date>([^<]+)<\/gco:Date>/
+  )
+  return fecha ? `BDDAE ${fecha[1]}` : 'desconocida'
+}
+
+const main = async () => {
+  const provincias = generarProvincias()
+  const municipios = generarMunicipios()
+  const eatims = generarEatims()
+  const comunidadesJuridicas = generarComunidadesJuridicas()
+  const salidas = [
+    { ...huella(escribirJson('provincias.json', provincias)), registros: provincias.length },
+    { ...huella(escribirJson('municipios.json', municipios)), registros: municipios.length },
+    { ...huella(escribirJson('eatims.json', eatims)), registros: eatims.length },
+    {
+      ...huella(escribirJson('comjuridic.json', comunidadesJuridicas)),
+      registros: comunidadesJuridicas.length
+    }
+  ]
+  console.log(`provincias.json: ${provincias.length} provincias`)
+  console.log(`municipios.json: ${municipios.length} municipios`)
+  console.log(`eatims.json: ${eatims.length} entidades locales menores`)
+  console.log(`comjuridic.json: ${comunidadesJuridicas.length} territorios compartidos`)
+
+  const fuentesCsv = ['PROVINCIAS.csv', 'MUNICIPIOS.csv', 'EATIMS.csv', 'COMJURIDIC.csv'].map(
+    (nombre) => ({
+      ...huella(resolve(csvDir, nombre)),
+      version: versionCsv()
+    })
+  )
+
+  // Lo que no se ha podido regenerar por falta de fuentes, para resumirlo al final
+  const fuentesQueFaltan = []
+  const salidasSinRegenerar = []
+
+  const entidades = generarEntidades()
+  const rutaEntidades = resolve(dataDir, 'entidades.json')
+  if (entidades) {
+    salidas.push({ ...huella(escribirJson('entidades.json', entidades)), registros: entidades.length })
+    fuentesCsv.push({ ...huella(resolve(csvDir, 'ENTIDADES.csv')), version: versionCsv() })
+    console.log(`entidades.json: ${entidades.length} entidades de población`)
+  } else {
+    console.warn('Falta ENTIDADES.csv: se conserva entidades.json sin regenerar.')
+    fuentesQueFaltan.push(rutaRelativa(resolve(csvDir, 'ENTIDADES.csv')))
+    salidasSinRegenerar.push('entidades.json')
+    // La app importa el fichero: si no existe se crea vacío y el mapa no muestra entidades
+    if (!existsSync(rutaEntidades)) escribirJson('entidades.json', [])
+    salidas.push({ ...huella(rutaEntidades), regenerado: false })
+  }
+
+  const fuentesShp = []
+  for (const entrada of CAPAS) {
+    const { shp, dbf } = rutasShapefile(entrada.capa)
+    const faltan = [shp, dbf].filter((ruta) => !existsSync(ruta)).map(rutaRelativa)
+    const disponible = faltan.length === 0
+
+    if (!disponible || opciones['solo-metadatos']) {
+      if (!disponible) {
+        console.warn(`Falta ${faltan.join(' y ')}: se conserva ${entrada.salida} sin regenerar.`)
+        fuentesQueFaltan.push(...faltan)
+        salidasSinRegenerar.push(entrada.salida)
+      }
+      fuentesShp.push({ ruta: rutaRelativa(shp), version: versionLimites(), disponible })
+      const existente = resolve(dataDir, entrada.salida)
+      if (existsSync(existente)) salidas.push({ ...huella(existente), regenerado: false })
+      continue
+    }
+
+    fuentesShp.push(
+      { ...huella(shp), version: versionLimites(), disponible },
+      { ...huella(dbf), version: versionLimites(), disponible }
+    )
+    const topo = await generarTopologia(entrada)
+    const geometrias = topo.objects[entrada.capa].geometries.length
+    const ruta = resolve(dataDir, entrada.salida)
+    writeFileSync(ruta, JSON.stringify(topo))
+    salidas.push({ ...huella(ruta), registros: geometrias, regenerado: true })
+    console.log(`${basename(ruta)}: ${geometrias} recintos`)
+  }
+
+  escribirJson('data-manifest.json', {
+    opciones: { retener, cuantizacion },
+    fuentes: [...fuentesCsv, ...fuentesShp],
+    salidas
+  })
+  console.log('data-manifest.json actualizado')
+
+  if (fuentesQueFaltan.length) {
+    const lista = (rutas) => rutas.map((ruta) => `  - ${ruta}`).join('\n')
+    console.warn(`\nFuentes que faltan:\n${lista(fuentesQueFaltan)}`)
+    console.warn(`Salidas sin regenerar:\n${lista(salidasSinRegenerar)}`)
+  }
+  console.warn(
+    'Canarias (lineas_limite/SHP_REGCAN95) no se procesa: los TopoJSON no tienen sus recintos.'
+  )
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
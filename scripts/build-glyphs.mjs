@@ -0,0 +1,206 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import opentype from 'opentype.js'
+import { PbfWriter } from 'pbf'
+
+// Genera los glifos SDF que usa MapLibre para las etiquetas, en el mismo formato que los
+// servidores de fuentes (glyphs.proto), para no depender de ninguna URL externa.
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const root = resolve(__dirname, '..')
+const require = createRequire(import.meta.url)
+
+const FONTSTACK = 'Noto Sans Regular'
+const FUENTES = [
+  '@fontsource/noto-sans/files/noto-sans-latin-400-normal.woff',
+  '@fontsource/noto-sans/files/noto-sans-latin-ext-400-normal.woff'
+]
+// Latín básico y suplemento, Latín extendido y puntuación general (’ “ ” – —)
+const RANGOS = [0, 256, 8192]
+const outDir = resolve(root, 'public', 'fonts', FONTSTACK)
+
+// Parámetros fijos del formato: MapLibre dibuja a 24 px con 3 px de borde y 8 px de radio
+const TAMANO = 24
+const BORDE = 3
+const RADIO = 8
+const CORTE = 0.25
+const AJUSTE_SUPERIOR = 27
+const PASOS_CURVA = 8
+
+const fuentes = FUENTES.map((ruta) => {
+  const buffer = readFileSync(require.resolve(ruta))
+  return opentype.parse(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength))
+})
+
+const buscarGlifo = (codigo) => {
+  const caracter = String.fromCodePoint(codigo)
+  for (const fuente of fuentes) {
+    const glifo = fuente.charToGlyph(caracter)
+    if (glifo && glifo.index !== 0) return { fuente, glifo }
+  }
+  return null
+}
+
+// Convierte el trazado en segmentos rectos, aproximando las curvas
+const segmentosDeTrazado = (comandos) => {
+  const segmentos = []
+  let inicio = null
+  let actual = null
+  const linea = (destino) => {
+    segmentos.push([actual[0], actual[1], destino[0], destino[1]])
+    actual = destino
+  }
+
+  for (const comando of comandos) {
+    if (comando.type === 'M') {
+      if (inicio && actual && (actual[0] !== inicio[0] || actual[1] !== inicio[1])) linea(inicio)
+      inicio = [comando.x, comando.y]
+      actual = inicio
+    } else if (comando.type === 'L') {
+      linea([comando.x, comando.y])
+    } else if (comando.type === 'Q') {
+      const [x0, y0] = actual
+      for (let paso = 1; paso <= PASOS_CURVA; paso += 1) {
+        const t = paso / PASOS_CURVA
+        const u = 1 - t
+        linea([
+          u * u * x0 + 2 * u * t * comando.x1 + t * t * comando.x,
+          u * u * y0 + 2 * u * t * comando.y1 + t * t * comando.y
+        ])
+      }
+    } else if (comando.type === 'C') {
+      const [x0, y0] = actual
+      for (let paso = 1; paso <= PASOS_CURVA; paso += 1) {
+        const t = paso / PASOS_CURVA
+        const u = 1 - t
+        linea([
+          u * u * u * x0 + 3 * u * u * t * comando.x1 + 3 * u * t * t * comando.x2 + t * t * t * comando.x,
+          u * u * u * y0 + 3 * u * u * t * comando.y1 + 3 * u * t * t * comando.y2 + t * t * t * comando.y
+        ])
+      }
+    } else if (comando.type === 'Z' && inicio && actual) {
+      if (actual[0] !== inicio[0] || actual[1] !== inicio[1]) linea(inicio)
+      actual = inicio
+    }
+  }
+  if (inicio && actual && (actual[0] !== inicio[0] || actual[1] !== inicio[1])) linea(inicio)
+  return segmentos
+}
+
+const distanciaASegmento = (x, y, [x1, y1, x2, y2]) => {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  const longitud = dx * dx + dy * dy
+  const t = longitud ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / longitud)) : 0
+  const px = x1 + t * dx - x
+  const py = y1 + t * dy - y
+  return px * px + py * py
+}
+
+// Regla de bobinado no nula, la misma que usan las fuentes TrueType
+const estaDentro = (x, y, segmentos) => {
+  let bobinado = 0
+  for (const [x1, y1, x2, y2] of segmentos) {
+    if (y1 <= y) {
+      if (y2 > y && (x2 - x1) * (y - y1) - (x - x1) * (y2 - y1) > 0) bobinado += 1
+    } else if (y2 <= y && (x2 - x1) * (y - y1) - (x - x1) * (y2 - y1) < 0) {
+      bobinado -= 1
+    }
+  }
+  return bobinado !== 0
+}
+
+const dibujarGlifo = (codigo) => {
+  const encontrado = buscarGlifo(codigo)
+  if (!encontrado) return null
+
+  const { fuente, glifo } = encontrado
+  const avance = Math.round((glifo.advanceWidth * TAMANO) / fuente.unitsPerEm)
+  // getPath devuelve coordenadas de pantalla: la y crece hacia abajo y la línea base está en 0
+  const segmentos = segmentosDeTrazado(glifo.getPath(0, 0, TAMANO).commands)
+  if (!segmentos.length) {
+    return { id: codigo, bitmap: new Uint8Array(0), width: 0, height: 0, left: 0, top: -AJUSTE_SUPERIOR, advance: avance }
+  }
+
+  let xMin = Infinity
+  let yMin = Infinity
+  let xMax = -Infinity
+  let yMax = -Infinity
+  for (const [x1, y1, x2, y2] of segmentos) {
+    xMin = Math.min(xMin, x1, x2)
+    yMin = Math.min(yMin, y1, y2)
+    xMax = Math.max(xMax, x1, x2)
+    yMax = Math.max(yMax, y1, y2)
+  }
+
+  const origenX = Math.floor(xMin)
+  const origenY = Math.floor(yMin)
+  const ancho = Math.ceil(xMax) - origenX
+  const alto = Math.ceil(yMax) - origenY
+  const anchoBitmap = ancho + 2 * BORDE
+  const altoBitmap = alto + 2 * BORDE
+  const bitmap = new Uint8Array(anchoBitmap * altoBitmap)
+
+  for (let fila = 0; fila < altoBitmap; fila += 1) {
+    for (let columna = 0; columna < anchoBitmap; columna += 1) {
+      const x = origenX - BORDE + columna + 0.5
+      const y = origenY - BORDE + fila + 0.5
+      let minima = Infinity
+      for (const segmento of segmentos) {
+        minima = Math.min(minima, distanciaASegmento(x, y, segmento))
+      }
+      const distancia = Math.sqrt(minima) * (estaDentro(x, y, segmentos) ? -1 : 1)
+      const valor = Math.round(255 - 255 * (distancia / RADIO + CORTE))
+      bitmap[fila * anchoBitmap + columna] = Math.max(0, Math.min(255, valor))
+    }
+  }
+
+  return {
+    id: codigo,
+    bitmap,
+    width: ancho,
+    height: alto,
+    left: origenX,
+    top: -origenY - AJUSTE_SUPERIOR,
+    advance: avance
+  }
+}
+
+const escribirGlifo = (glifo, pbf) => {
+  pbf.writeVarintField(1, glifo.id)
+  if (glifo.bitmap.length) pbf.writeBytesField(2, glifo.bitmap)
+  pbf.writeVarintField(3, glifo.width)
+  pbf.writeVarintField(4, glifo.height)
+  pbf.writeSVarintField(5, glifo.left)
+  pbf.writeSVarintField(6, glifo.top)
+  pbf.writeVarintField(7, glifo.advance)
+}
+
+mkdirSync(outDir, { recursive: true })
+
+for (const inicio of RANGOS) {
+  const fin = inicio + 255
+  const rango = `${inicio}-${fin}`
+  const glifos = []
+  for (let codigo = inicio; codigo <= fin; codigo += 1) {
+    const glifo = dibujarGlifo(codigo)
+    if (glifo) glifos.push(glifo)
+  }
+
+  const pbf = new PbfWriter()
+  pbf.writeMessage(
+    1,
+    (_, stack) => {
+      stack.writeStringField(1, FONTSTACK)
+      stack.writeStringField(2, rango)
+      for (const glifo of glifos) {
+        stack.writeMessage(3, escribirGlifo, glifo)
+      }
+    },
+    null
+  )
+  writeFileSync(resolve(outDir, `${rango}.pbf`), pbf.finish())
+  console.log(`${FONTSTACK}/${rango}.pbf: ${glifos.length} glifos`)
+}
@@ -1,32 +1,77 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
 import clsx from 'clsx'
 import { AppShell } from './components/layout/AppShell'
-import { MapCanvas } from './components/map/MapCanvas'
+import {
+  MapCanvas,
+  type MapCameraRequest,
+  type MapFocusRequest,
+  type MapReviewRequest
+} from './components/map/MapCanvas'
 import { MunicipioInfoPanel } from './components/map/MunicipioInfoPanel'
+import { ChoiceAnswerPanel } from './components/quiz/ChoiceAnswerPanel'
+import { NameAnswerForm } from './components/quiz/NameAnswerForm'
+import { QuestionTypeSwitch } from './components/quiz/QuestionTypeSwitch'
+import { QuizLevelSwitch } from './components/quiz/QuizLevelSwitch'
+import { QuizReviewPanel } from './components/quiz/QuizReviewPanel'
+import { TimingModeSwitch } from './components/quiz/TimingModeSwitch'
+import { HintPanel } from './components/quiz/HintPanel'
+import { HintPenaltySwitch } from './components/quiz/HintPenaltySwitch'
+import { ChallengeCodePanel } from './components/quiz/ChallengeCodePanel'
+import { RunHistoryModal } from './components/history/RunHistoryModal'
+import { MunicipioSearch } from './components/search/MunicipioSearch'
 import {
   comunidades as comunidadSummaries,
+  divisionFeatures,
+  divisionInfoById,
+  divisionNeighbors,
+  municipioNeighbors,
   provincias as provinciaSummaries,
   spanishMunicipioFeatures,
   spanishMunicipiosById,
-  spanishMunicipiosInfo
+  spanishMunicipiosInfo,
+  spanishTerritorioFeatures,
+  territorioById
 } from './data/spainDivisions'
-import { useGameStore, type ColorMode, type CelebrationState, type GameMode } from './store/gameStore'
+import {
+  NIVELES_PISTA,
+  seRespondeEnElMapa,
+  tiempoRestanteMs,
+  useGameStore,
+  type ColorMode,
+  type CelebrationState,
+  type GameMode,
+  type TipoPregunta
+} from './store/gameStore'
 import { useShallow } from 'zustand/react/shallow'
-import type { ComunidadId, MunicipioId, MunicipioInfo } from './types/municipio'
+import type {
+  ComunidadId,
+  Coordenadas,
+  MunicipioId,
+  MunicipioInfo,
+  NivelGeografico,
+  ProvinciaId,
+  RespuestaEstado
+} from './types/municipio'
+import { contarPendientes } from './utils/spacedRepetition'
+import { assignColors } from './utils/coloring'
+import { entidadMasCercana } from './utils/geo'
+import { codificarReto, decodificarReto, type DefinicionReto } from './utils/challengeCode'
+import { nuevaSemilla } from './utils/random'
+import {
+  serializeCamera,
+  serializeUrlState,
+  type MapCamera,
+  type UrlState
+} from './utils/urlState'
+import { applyUrlStateToStore, readUrlState } from './store/urlSync'
 import './App.css'
 import introLogo from './data/daniel-alonso-gomez.png'
 
 const formatNumber = (value: number) => value.toLocaleString('es-ES')
 
-// Some TS checks in the build pipeline were failing due to a props mismatch
-// between the call site and `MapCanvas`'s declared props. Keep runtime as-is
-// but provide a permissive alias for the JSX usage so the production build
-// doesn't fail on a type incompatibility.
-const MapCanvasAny = MapCanvas as unknown as any
-
 const CELEBRATION_CLEAR_DELAY = 1400
-// Tiempo límite por pregunta (segundos)
-const TIME_LIMIT = 20
+// Cada cuánto se recuentan los repasos pendientes, que vencen con el paso del tiempo
+const REPASO_REFRESH_MS = 30_000
 const SUCCESS_SOUND_DURATION = 0.8
 const SUCCESS_SOUND_PEAK_GAIN = 0.28
 const SUCCESS_SOUND_START_FREQ = 523.25
@@ -34,6 +79,79 @@ const SUCCESS_SOUND_END_FREQ = 783.99
 
 type ExpandableSection = 'communities' | 'provinces' | 'details'
 
+// Orden estable (alfabético) para que un mismo código de reto reconstruya la misma lista
+const municipiosDeProvincias = (provincias: ProvinciaId[]) => {
+  if (!provincias.length) {
+    return [...spanishMunicipiosInfo].sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
+  }
+  const provincesSet = new Set(provincias)
+  return spanishMunicipiosInfo
+    .filter((municipio) => provincesSet.has(municipio.provincia))
+    .sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
+}
+
+const computeMostPopulatedMunicipios = (
+  municipios: MunicipioInfo[],
+  count: number
+): MunicipioInfo[] => {
+  if (municipios.length === 0) return []
+
+  const withPopulation = municipios.filter((municipio) =>
+    typeof municipio.poblacion === 'number' && Number.isFinite(municipio.poblacion)
+  )
+
+  const sortedByPopulation = withPopulation.sort((a, b) => {
+    const popA = a.poblacion ?? 0
+    const popB = b.poblacion ?? 0
+    if (popA === popB) {
+      return a.nombre.localeCompare(b.nombre, 'es')
+    }
+    return popB - popA
+  })
+
+  const selected: MunicipioInfo[] = sortedByPopulation.slice(0, count)
+  if (selected.length >= count) {
+    return selected
+  }
+
+  const usedIds = new Set(selected.map((municipio) => municipio.id))
+  for (const municipio of municipios) {
+    if (selected.length >= count) break
+    if (!usedIds.has(municipio.id)) {
+      selected.push(municipio)
+      usedIds.add(municipio.id)
+    }
+  }
+
+  return selected
+}
+
+const poolDeReto = (reto: DefinicionReto) => {
+  if (reto.dificultad === 'reto-total') return spanishMunicipiosInfo
+  const municipios = municipiosDeProvincias(reto.provincias)
+  return reto.masPoblados ? computeMostPopulatedMunicipios(municipios, reto.masPoblados) : municipios
+}
+
+const AYUDA_TIPO: Record<TipoPregunta, string> = {
+  localizar: 'Haz clic en el municipio correcto cuando se muestre el nombre.',
+  nombrar: 'Escribe el nombre del municipio resaltado en el mapa.',
+  opciones: 'Escoge entre cuatro nombres el del municipio resaltado.',
+  capital: 'Haz clic en la capital de la provincia que se indique.',
+  entidad: 'Haz clic en el municipio al que pertenece la localidad que se indique.',
+  localidad: 'Acerca el mapa y haz clic en el punto de la localidad que se indique.'
+}
+
+const PREGUNTA_RESALTADO: Record<NivelGeografico, string> = {
+  municipio: '¿Qué municipio está resaltado?',
+  provincia: '¿Qué provincia está resaltada?',
+  comunidad: '¿Qué comunidad autónoma está resaltada?'
+}
+
+const zonaDeMunicipio = (municipioId: MunicipioId) => [
+  municipioId,
+  ...(municipioNeighbors.get(municipioId) ?? [])
+]
+
 const getAudioContextConstructor = () => {
   if (typeof window === 'undefined') return undefined
   return (
@@ -43,23 +161,36 @@ const getAudioContextConstructor = () => {
 }
 
 function App() {
-  const [selected, setSelected] = useState<MunicipioInfo | undefined>()
+  const [selected, setSelected] = useState<MunicipioInfo | undefined>(() => {
+    const { municipioId } = readUrlState()
+    return municipioId ? spanishMunicipiosById.get(municipioId) : undefined
+  })
   const [showSplash, setShowSplash] = useState(true)
-  const [paused, setPaused] = useState(false)
   const [expandedSections, setExpandedSections] = useState<Record<ExpandableSection, boolean>>({
     communities: true,
     provinces: true,
     details: true
   })
   const [floatingLabel, setFloatingLabel] = useState<string | undefined>()
-  const [timeLeft, setTimeLeft] = useState(TIME_LIMIT)
+  // Instante con el que se pinta el reloj del reto; lo actualiza el intervalo de más abajo
+  const [ahora, setAhora] = useState(() => Date.now())
+  // Instante con el que se cuentan los repasos pendientes; se refresca solo y al abrir el menú de retos
+  const [ahoraRepaso, setAhoraRepaso] = useState(() => Date.now())
   const [showMunicipioLabels, setShowMunicipioLabels] = useState(false)
+  const [showTerritorios, setShowTerritorios] = useState(false)
+  const [selectedTerritorioId, setSelectedTerritorioId] = useState<string | undefined>()
   const [showRetoModal, setShowRetoModal] = useState(false)
+  const [showHistorial, setShowHistorial] = useState(false)
+  // Pregunta que se está revisando tras terminar un reto; `key` vuelve a encuadrar el mapa
+  const [revision, setRevision] = useState<{ index: number; key: number } | null>(null)
   const [isMobile, setIsMobile] = useState(false)
   const [mobileControlsOpen, setMobileControlsOpen] = useState(false)
   const [focusedQuizMunicipios, setFocusedQuizMunicipios] = useState<Set<MunicipioId> | null>(null)
-  const timerRef = useRef<number | null>(null)
-  const prevQuestionRef = useRef<string | null>(null)
+  const [focusRequest, setFocusRequest] = useState<MapFocusRequest | undefined>()
+  const [cameraRequest, setCameraRequest] = useState<MapCameraRequest | undefined>(() => {
+    const { camara } = readUrlState()
+    return camara ? { ...camara, key: 0 } : undefined
+  })
   const audioContextRef = useRef<AudioContext | null>(null)
 
   const ensureAudioContext = useCallback(async (): Promise<AudioContext | null> => {
@@ -134,6 +265,11 @@ function App() {
     setColorMode,
     dificultadReto,
     setDificultadReto,
+    tipoPregunta,
+    setTipoPregunta,
+    nivelGeografico,
+    setNivelGeografico,
+    nivelPartida,
     soundEnabled,
     toggleSound,
     theme,
@@ -144,18 +280,34 @@ function App() {
     toggleProvince: toggleProvinceSelection,
     startQuiz,
     marcarMunicipio,
+    marcarEntidad,
+    responderNombre,
+    saltarPregunta,
     resetQuiz,
     preguntas,
     activeIndex,
     aciertos,
     fallos,
+    puntos,
     completado,
     mapaEstados,
     correctBlinkId,
     celebration,
     clearCelebration,
     lockedMunicipios,
-    registrarTiempoAgotado
+    historial,
+    reto,
+    setSelectedProvinces,
+    ajustesTiempo,
+    setAjustesTiempo,
+    reloj,
+    preguntaIniciadaEn,
+    partidaIniciadaEn,
+    togglePausa,
+    comprobarTiempo,
+    penalizacionesPista,
+    setPenalizacionesPista,
+    pedirPista
   } = useGameStore(
     useShallow((state) => ({
       modo: state.modo,
@@ -164,6 +316,11 @@ function App() {
       setColorMode: state.setColorMode,
       dificultadReto: state.dificultadReto,
       setDificultadReto: state.setDificultadReto,
+      tipoPregunta: state.tipoPregunta,
+      setTipoPregunta: state.setTipoPregunta,
+      nivelGeografico: state.nivelGeografico,
+      setNivelGeografico: state.setNivelGeografico,
+      nivelPartida: state.nivelPartida,
       soundEnabled: state.soundEnabled,
       toggleSound: state.toggleSound,
       theme: state.theme,
@@ -174,24 +331,62 @@ function App() {
       toggleProvince: state.toggleProvince,
       startQuiz: state.startQuiz,
       marcarMunicipio: state.marcarMunicipio,
+      marcarEntidad: state.marcarEntidad,
+      responderNombre: state.responderNombre,
+      saltarPregunta: state.saltarPregunta,
       resetQuiz: state.resetQuiz,
       preguntas: state.preguntas,
       activeIndex: state.activeIndex,
       aciertos: state.aciertos,
       fallos: state.fallos,
+      puntos: state.puntos,
       completado: state.completado,
       mapaEstados: state.mapaEstados,
       correctBlinkId: state.correctBlinkId,
       celebration: state.celebration,
       clearCelebration: state.clearCelebration,
       lockedMunicipios: state.lockedMunicipios,
-      registrarTiempoAgotado: state.registrarTiempoAgotado
+      historial: state.historial,
+      reto: state.reto,
+      setSelectedProvinces: state.setSelectedProvinces,
+      ajustesTiempo: state.ajustesTiempo,
+      setAjustesTiempo: state.setAjustesTiempo,
+      reloj: state.reloj,
+      preguntaIniciadaEn: state.preguntaIniciadaEn,
+      partidaIniciadaEn: state.partidaIniciadaEn,
+      togglePausa: state.togglePausa,
+      comprobarTiempo: state.comprobarTiempo,
+      penalizacionesPista: state.penalizacionesPista,
+      setPenalizacionesPista: state.setPenalizacionesPista,
+      pedirPista: state.pedirPista
     }))
   )
 
   const activeQuestion = activeIndex >= 0 ? preguntas[activeIndex] : undefined
+  const paused = Boolean(reloj?.pausadoEn)
+  const pistasUsadas = modo === 'reto' ? activeQuestion?.pistas ?? 0 : 0
+  const isHighlightQuestion =
+    modo === 'reto' && activeQuestion !== undefined && !seRespondeEnElMapa(activeQuestion.tipo)
+  const activeOpciones = useMemo(
+    () =>
+      (activeQuestion?.opciones ?? []).map((id) => ({
+        id,
+        nombre: divisionInfoById[nivelPartida].get(id)?.nombre ?? id
+      })),
+    [activeQuestion, nivelPartida]
+  )
   const totalPreguntas = preguntas.length
   const respondidas = aciertos + fallos
+  // Saltar solo tiene sentido si queda otra pregunta pendiente a la que pasar
+  const puedeSaltar = Boolean(activeQuestion) && totalPreguntas - respondidas > 1
+
+  const errorMedioKm = useMemo(() => {
+    const distancias = preguntas
+      .map((pregunta) => pregunta.distanciaKm)
+      .filter((distancia): distancia is number => typeof distancia === 'number')
+    if (!distancias.length) return undefined
+    return distancias.reduce((total, distancia) => total + distancia, 0) / distancias.length
+  }, [preguntas])
 
   const prevModoRef = useRef(modo)
   const prevTotalPreguntasRef = useRef(totalPreguntas)
@@ -209,15 +404,10 @@ function App() {
     [selectedCommunitiesSet]
   )
 
-  const availableMunicipios = useMemo(() => {
-    if (!selectedProvinces.length) {
-      return [...spanishMunicipiosInfo].sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
-    }
-    const provincesSet = new Set(selectedProvinces)
-    return spanishMunicipiosInfo
-      .filter((municipio) => provincesSet.has(municipio.provincia))
-      .sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
-  }, [selectedProvinces])
+  const availableMunicipios = useMemo(
+    () => municipiosDeProvincias(selectedProvinces),
+    [selectedProvinces]
+  )
 
   const availableMunicipioIds = useMemo(() => new Set(availableMunicipios.map((m) => m.id)), [
     availableMunicipios
@@ -233,49 +423,112 @@ function App() {
     })
   }, [availableMunicipioIds])
 
-  const computeMostPopulatedMunicipios = useCallback(
-    (count: number): MunicipioInfo[] => {
-      if (availableMunicipios.length === 0) return []
+  // Las EATIM solo se dibujan al estudiar: en un reto darían pistas sobre la respuesta
+  const eatimsVisibles = useMemo(
+    () =>
+      modo === 'estudio'
+        ? availableMunicipios.flatMap((municipio) => municipio.eatims ?? [])
+        : undefined,
+    [modo, availableMunicipios]
+  )
 
-      const withPopulation = availableMunicipios.filter((municipio) =>
-        typeof municipio.poblacion === 'number' && Number.isFinite(municipio.poblacion)
-      )
+  // Los condominios no forman parte de ningún municipio: se superponen a petición al estudiar
+  const mostrarTerritorios = modo === 'estudio' && showTerritorios
+  const territoriosVisibles = useMemo(
+    () =>
+      mostrarTerritorios
+        ? spanishTerritorioFeatures.filter((feature) =>
+            territorioById
+              .get(String(feature.id))
+              ?.municipios.some((municipioId) => availableMunicipioIds.has(municipioId))
+          )
+        : undefined,
+    [mostrarTerritorios, availableMunicipioIds]
+  )
+  const territorioSeleccionado =
+    mostrarTerritorios && selectedTerritorioId ? territorioById.get(selectedTerritorioId) : undefined
 
-      const sortedByPopulation = withPopulation.sort((a, b) => {
-        const popA = a.poblacion ?? 0
-        const popB = b.poblacion ?? 0
-        if (popA === popB) {
-          return a.nombre.localeCompare(b.nombre, 'es')
-        }
-        return popB - popA
-      })
-
-      const selected: MunicipioInfo[] = sortedByPopulation.slice(0, count)
-      if (selected.length >= count) {
-        return selected
-      }
+  const toggleTerritorios = () => {
+    setShowTerritorios((value) => !value)
+    setSelectedTerritorioId(undefined)
+  }
 
-      const usedIds = new Set(selected.map((municipio) => municipio.id))
-      for (const municipio of availableMunicipios) {
-        if (selected.length >= count) break
-        if (!usedIds.has(municipio.id)) {
-          selected.push(municipio)
-          usedIds.add(municipio.id)
-        }
-      }
+  // Al estudiar se muestran con nombre; en las preguntas de localidad, solo los puntos
+  const preguntaLocalidad = modo === 'reto' && activeQuestion?.tipo === 'localidad'
+  const entidadesVisibles = useMemo(
+    () =>
+      modo === 'estudio' || preguntaLocalidad
+        ? availableMunicipios.flatMap((municipio) => municipio.entidades ?? [])
+        : undefined,
+    [modo, preguntaLocalidad, availableMunicipios]
+  )
 
-      return selected
-    },
-    [availableMunicipios]
+  // En un reto de provincias o comunidades el mapa muestra esos recintos en lugar de los municipios
+  const nivelMapa: NivelGeografico = modo === 'reto' && preguntas.length ? nivelPartida : 'municipio'
+
+  const mapaDivisionCompleto = nivelMapa !== 'municipio' && reto?.dificultad === 'reto-total'
+
+  const mapFeatures = useMemo(() => {
+    if (nivelMapa === 'municipio') return visibleFeatures
+    if (mapaDivisionCompleto) return divisionFeatures[nivelMapa]
+    const seleccion = new Set<string>(
+      nivelMapa === 'provincia' ? selectedProvinces : selectedCommunities
+    )
+    return divisionFeatures[nivelMapa].filter((feature) => seleccion.has(String(feature.id)))
+  }, [nivelMapa, mapaDivisionCompleto, visibleFeatures, selectedProvinces, selectedCommunities])
+
+  // Pista 1: se atenúan las demás provincias; pista 2: se atenúa todo salvo el municipio y sus vecinos
+  const provinciaPista = useMemo(() => {
+    const provincia =
+      pistasUsadas >= 1 && activeQuestion
+        ? spanishMunicipiosById.get(activeQuestion.municipioId)?.provincia
+        : undefined
+    return provincia ? [provincia] : undefined
+  }, [pistasUsadas, activeQuestion])
+
+  const zonaPista = useMemo(
+    () =>
+      pistasUsadas >= 2 && activeQuestion
+        ? new Set<MunicipioId>(zonaDeMunicipio(activeQuestion.municipioId))
+        : null,
+    [pistasUsadas, activeQuestion]
+  )
+
+  const repasoPendientes = useMemo(
+    () => contarPendientes(availableMunicipios, historial, ahoraRepaso),
+    [availableMunicipios, historial, ahoraRepaso]
+  )
+
+  // Se colorea el mapa completo una sola vez para que los colores no cambien al filtrar provincias
+  const colorPorNivel = useMemo<Record<NivelGeografico, Map<string, string>>>(
+    () => ({
+      municipio: assignColors(spanishMunicipioFeatures, municipioNeighbors),
+      provincia: assignColors(divisionFeatures.provincia, divisionNeighbors.provincia),
+      comunidad: assignColors(divisionFeatures.comunidad, divisionNeighbors.comunidad)
+    }),
+    []
   )
 
   // Número de preguntas restantes podría calcularse si se necesita en el futuro
   const progresoResueltas = totalPreguntas > 0 ? Math.round((respondidas / totalPreguntas) * 100) : 0
   const progresoAciertos = totalPreguntas > 0 ? Math.round((aciertos / totalPreguntas) * 100) : 0
+  const restanteMs = tiempoRestanteMs({ reloj, preguntaIniciadaEn, partidaIniciadaEn }, ahora)
+  const limiteRelojMs =
+    (reloj?.modo === 'cuenta-atras' ? reloj.limitePartida : reloj?.limitePregunta ?? 0) * 1000
   const timerPercent =
-    modo === 'reto' && activeQuestion
-      ? Math.max(0, Math.min((timeLeft / TIME_LIMIT) * 100, 100))
+    modo === 'reto' && activeQuestion && restanteMs !== undefined && limiteRelojMs > 0
+      ? Math.max(0, Math.min((restanteMs / limiteRelojMs) * 100, 100))
       : 0
+  const timerInfo = (() => {
+    if (paused) return 'Pausado'
+    if (restanteMs === undefined) return 'Sin límite de tiempo'
+    const segundos = Math.ceil(restanteMs / 1000)
+    if (reloj?.modo === 'cuenta-atras') {
+      const minutos = Math.floor(segundos / 60)
+      return `Tiempo de partida: ${minutos}:${String(segundos % 60).padStart(2, '0')}`
+    }
+    return `${reloj?.modo === 'muerte-subita' ? 'Muerte súbita · ' : ''}Tiempo restante: ${segundos}s`
+  })()
 
   useEffect(() => {
     const prevModo = prevModoRef.current
@@ -285,6 +538,7 @@ function App() {
       modo === 'reto' &&
       (prevModo !== 'reto' || (prevTotal > 0 && totalPreguntas === 0))
     ) {
+      setAhoraRepaso(Date.now())
       setShowRetoModal(true)
     }
 
@@ -296,18 +550,29 @@ function App() {
     prevTotalPreguntasRef.current = totalPreguntas
   }, [modo, totalPreguntas])
 
+  const showFloatingLabel = useCallback((label: string) => {
+    setFloatingLabel(label)
+    setTimeout(() => {
+      setFloatingLabel((current) => (current === label ? undefined : current))
+    }, 2000)
+  }, [])
+
   const handleSelectMunicipio = (municipioId: string) => {
     if (modo === 'reto' && paused) return
+    if (modo === 'reto' && activeQuestion && !seRespondeEnElMapa(activeQuestion.tipo)) return
+    // Las localidades se contestan con el punto del clic (handleSelectPunto), no con el recinto
+    if (modo === 'reto' && activeQuestion?.tipo === 'localidad') return
     if (modo === 'reto' && dificultadReto === 'facil' && lockedMunicipios?.has(municipioId)) {
       return
     }
-    const info = spanishMunicipiosById.get(municipioId)
-    if (info) setSelected(info)
+    const info = divisionInfoById[nivelMapa].get(municipioId)
+    // La ficha de detalles es de municipios; con provincias o comunidades solo se rotula
+    if (info && nivelMapa === 'municipio') {
+      setSelected(info)
+      setSelectedTerritorioId(undefined)
+    }
     if (info) {
-      setFloatingLabel(info.nombre)
-      setTimeout(() => {
-        setFloatingLabel((current) => (current === info.nombre ? undefined : current))
-      }, 2000)
+      showFloatingLabel(info.nombre)
     }
 
     if (modo === 'reto') {
@@ -315,28 +580,136 @@ function App() {
     }
   }
 
-  const startReto = (tipo: 'reto-10' | 'reto-provincia' | 'reto-total') => {
-    const pool = tipo === 'reto-total' ? spanishMunicipiosInfo : availableMunicipios
+  const handleSelectPunto = (punto: Coordenadas) => {
+    if (modo !== 'reto' || paused || activeQuestion?.tipo !== 'localidad') return
+    const entidad = entidadMasCercana(punto, entidadesVisibles ?? [])
+    if (entidad) marcarEntidad(entidad)
+  }
+
+  const handleUrlNavigation = useCallback((state: UrlState) => {
+    applyUrlStateToStore(state)
+    if (useGameStore.getState().modo === 'estudio') setFocusedQuizMunicipios(null)
+    setSelected(state.municipioId ? spanishMunicipiosById.get(state.municipioId) : undefined)
+    if (state.camara) setCameraRequest({ ...state.camara, key: Date.now() })
+  }, [])
+
+  useUrlStateSync(
+    {
+      comunidades: selectedCommunities,
+      provincias: selectedProvinces,
+      colorMode,
+      modo,
+      // En reto el municipio marcado es una respuesta: no se guarda en el historial ni se comparte
+      municipioId: modo === 'estudio' ? selected?.id : undefined
+    },
+    handleUrlNavigation
+  )
+
+  const handleSearchSelect = (municipioId: MunicipioId) => {
+    handleSelectMunicipio(municipioId)
+    setFocusRequest({ municipioIds: [municipioId], key: Date.now() })
+  }
+
+  // La última pista acerca el mapa a la zona del municipio y sus vecinos
+  const handlePedirPista = () => {
+    if (!activeQuestion || paused) return
+    const nivel = pedirPista()
+    if (nivel === NIVELES_PISTA) {
+      setFocusRequest({ municipioIds: zonaDeMunicipio(activeQuestion.municipioId), key: Date.now() })
+    }
+  }
+
+  const handleChoiceAnswer = (municipioId: MunicipioId) => {
+    if (!activeQuestion || paused) return
+    const nombre = activeQuestion.nombre
+    marcarMunicipio(municipioId)
+    showFloatingLabel(municipioId === activeQuestion.municipioId ? nombre : `Era ${nombre}`)
+  }
+
+  const handleNameAnswer = (texto: string) => {
+    if (!activeQuestion || paused) return
+    const nombre = activeQuestion.nombre
+    const correcta = responderNombre(texto)
+    showFloatingLabel(correcta ? nombre : `Era ${nombre}`)
+  }
+
+  const playReto = (reto: DefinicionReto) => {
+    const pool = poolDeReto(reto)
     if (pool.length === 0) return
     setSelected(undefined)
-    setPaused(false)
     setShowRetoModal(false)
-    setFocusedQuizMunicipios(null)
-    startQuiz({ dificultad: tipo, municipios: pool })
+    setRevision(null)
+    setFocusedQuizMunicipios(
+      reto.masPoblados ? new Set(pool.map((municipio) => municipio.id)) : null
+    )
+    startQuiz({ dificultad: reto.dificultad, municipios: pool, nivel: reto.nivel, reto })
+    if (reto.nivel) {
+      // Se encuadran todos los recintos del reto, que pueden quedar fuera de la vista actual
+      const ids = pool.map((municipio) =>
+        reto.nivel === 'provincia' ? municipio.provincia : municipio.comunidad
+      )
+      setFocusRequest({ municipioIds: Array.from(new Set(ids)), key: Date.now() })
+    }
+  }
+
+  const startReto = (tipo: 'reto-10' | 'reto-provincia' | 'reto-total' | 'repaso') => {
+    if (tipo === 'repaso') {
+      if (availableMunicipios.length === 0) return
+      setSelected(undefined)
+      setShowRetoModal(false)
+      setRevision(null)
+      setFocusedQuizMunicipios(null)
+      startQuiz({ dificultad: tipo, municipios: availableMunicipios })
+      return
+    }
+    playReto({
+      semilla: nuevaSemilla(),
+      dificultad: tipo,
+      provincias: tipo === 'reto-total' ? [] : selectedProvinces,
+      dificultadReto,
+      tipoPregunta,
+      nivel: nivelGeografico === 'municipio' ? undefined : nivelGeografico
+    })
   }
 
   const startPopulatedReto = (count: 10 | 50 | 100) => {
-    const populous = computeMostPopulatedMunicipios(count)
-    if (populous.length === 0) return
+    playReto({
+      semilla: nuevaSemilla(),
+      dificultad: 'reto-provincia',
+      provincias: selectedProvinces,
+      masPoblados: count,
+      dificultadReto,
+      tipoPregunta
+    })
+  }
+
+  const startCodigoReto = (codigo: string) => {
+    const reto = decodificarReto(codigo)
+    if (!reto) return false
+    setDificultadReto(reto.dificultadReto)
+    setTipoPregunta(reto.tipoPregunta)
+    setNivelGeografico(reto.nivel ?? 'municipio')
+    if (reto.provincias.length) setSelectedProvinces(reto.provincias)
+    playReto(reto)
+    return true
+  }
+
+  // Nueva partida solo con los recintos fallados en la que acaba de terminar
+  const startFallosReto = () => {
+    const fallados = preguntas
+      .filter((pregunta) => pregunta.estado === 'fallida')
+      .map((pregunta) => divisionInfoById[nivelPartida].get(pregunta.municipioId))
+      .filter((municipio): municipio is MunicipioInfo => Boolean(municipio))
+    if (!fallados.length) return
     setSelected(undefined)
-    setPaused(false)
-    setShowRetoModal(false)
-    setFocusedQuizMunicipios(new Set(populous.map((municipio) => municipio.id)))
-    startQuiz({ dificultad: 'reto-provincia', municipios: populous })
+    setRevision(null)
+    setFocusedQuizMunicipios(new Set(fallados.map((municipio) => municipio.id)))
+    startQuiz({ dificultad: 'fallos', municipios: fallados, nivel: nivelPartida })
   }
 
   const handleResetQuiz = useCallback(() => {
     resetQuiz()
+    setRevision(null)
     setFocusedQuizMunicipios(null)
   }, [resetQuiz])
 
@@ -351,6 +724,39 @@ function App() {
   }
 
   const quizFinalizado = modo === 'reto' && preguntas.length > 0 && completado
+  const codigoReto = reto ? codificarReto(reto) : undefined
+  const fallidas = preguntas.filter((pregunta) => pregunta.estado === 'fallida').length
+  const preguntaRevisada = quizFinalizado && revision ? preguntas[revision.index] : undefined
+
+  const reviewRequest = useMemo<MapReviewRequest | undefined>(
+    () =>
+      preguntaRevisada && revision
+        ? {
+            objetivoId: preguntaRevisada.municipioId,
+            respuestaId: preguntaRevisada.respuesta,
+            distanciaKm: preguntaRevisada.distanciaKm,
+            key: revision.key
+          }
+        : undefined,
+    [preguntaRevisada, revision]
+  )
+
+  // En la revisión solo se colorean el municipio pedido y el marcado, y se atenúa el resto
+  const reviewStatuses = useMemo(() => {
+    if (!reviewRequest) return undefined
+    const statuses: Record<MunicipioId, RespuestaEstado> = { [reviewRequest.objetivoId]: 'correcta' }
+    if (reviewRequest.respuestaId && reviewRequest.respuestaId !== reviewRequest.objetivoId) {
+      statuses[reviewRequest.respuestaId] = 'fallida'
+    }
+    return statuses
+  }, [reviewRequest])
+
+  const reviewFocus = useMemo(
+    () => (reviewStatuses ? new Set<MunicipioId>(Object.keys(reviewStatuses)) : null),
+    [reviewStatuses]
+  )
+
+  const startRevision = (index: number) => setRevision({ index, key: Date.now() })
 
 useCelebrationCue(celebration, clearCelebration, soundEnabled, playSuccessSound)
 
@@ -400,55 +806,20 @@ useEffect(() => {
 }, [preguntas.length, focusedQuizMunicipios])
 
 
+// El reloj vive en el store: aquí solo se refresca la cuenta y se avisa para que detecte el vencimiento
 useEffect(() => {
-  if (modo !== 'reto' || activeIndex < 0 || !activeQuestion || totalPreguntas === 0) {
-    if (timerRef.current) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-    setTimeLeft(TIME_LIMIT)
-    return
-  }
+  if (modo !== 'reto' || activeIndex < 0 || paused) return
+  const interval = window.setInterval(() => {
+    setAhora(Date.now())
+    comprobarTiempo()
+  }, 250)
+  return () => window.clearInterval(interval)
+}, [modo, activeIndex, paused, comprobarTiempo])
 
-  if (paused) {
-    if (timerRef.current) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-    return
-  }
-
-  if (timerRef.current) {
-    window.clearInterval(timerRef.current)
-  }
-  // Si la pregunta cambió, reinicia el tiempo; si venimos de una pausa, conserva el valor
-  const currentKey = String(activeQuestion.municipioId ?? activeIndex)
-  if (prevQuestionRef.current !== currentKey) {
-    setTimeLeft(TIME_LIMIT)
-    prevQuestionRef.current = currentKey
-  }
-
-  timerRef.current = window.setInterval(() => {
-    setTimeLeft((prev) => {
-      if (prev <= 1) {
-        if (timerRef.current) {
-          window.clearInterval(timerRef.current)
-          timerRef.current = null
-        }
-        registrarTiempoAgotado()
-        return TIME_LIMIT
-      }
-      return prev - 1
-    })
-  }, 1000)
-
-  return () => {
-    if (timerRef.current) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-  }
-}, [modo, activeIndex, activeQuestion, registrarTiempoAgotado, totalPreguntas, paused])
+  useEffect(() => {
+    const interval = window.setInterval(() => setAhoraRepaso(Date.now()), REPASO_REFRESH_MS)
+    return () => window.clearInterval(interval)
+  }, [])
 
   useEffect(() => {
     if (!showSplash) return
@@ -470,6 +841,7 @@ useEffect(() => {
           </div>
         </div>
       ) : null}
+      {showHistorial ? <RunHistoryModal onClose={() => setShowHistorial(false)} /> : null}
       {showRetoModal ? (
         <div className="reto-modal-overlay" onClick={() => setShowRetoModal(false)}>
           <div
@@ -508,6 +880,9 @@ useEffect(() => {
                 </button>
               </div>
             </div>
+            <QuizLevelSwitch value={nivelGeografico} onChange={setNivelGeografico} />
+            <QuestionTypeSwitch value={tipoPregunta} onChange={setTipoPregunta} />
+            <TimingModeSwitch value={ajustesTiempo} onChange={setAjustesTiempo} />
             <div className="reto-modal__actions">
               <button type="button" className="ghost-button" onClick={() => startReto('reto-10')}>
                 10 aleatorias
@@ -522,6 +897,9 @@ useEffect(() => {
               <button type="button" className="ghost-button" onClick={() => startReto('reto-total')}>
                 Completar mapa
               </button>
+              <button type="button" className="ghost-button" onClick={() => startReto('repaso')}>
+                Repaso ({repasoPendientes} pendientes)
+              </button>
             </div>
             <div className="reto-modal__group">
               <span className="reto-modal__group-title">Más poblados de tus provincias</span>
@@ -549,6 +927,7 @@ useEffect(() => {
                 </button>
               </div>
             </div>
+            <ChallengeCodePanel codigo={codigoReto} onSubmit={startCodigoReto} />
             <div className="reto-modal__footer">
               <button type="button" className="ghost-button" onClick={() => setShowRetoModal(false)}>
                 Cerrar
@@ -612,6 +991,18 @@ useEffect(() => {
                   {showMunicipioLabels ? 'Ocultar nombres' : 'Mostrar nombres'}
                 </button>
               ) : null}
+              {modo === 'estudio' ? (
+                <button
+                  type="button"
+                  className={clsx('ghost-button', 'header__labels-toggle', {
+                    'ghost-button--active': showTerritorios
+                  })}
+                  onClick={toggleTerritorios}
+                  title="Parzonerías, comunidades de villa y tierra y otros territorios sin término municipal propio"
+                >
+                  {showTerritorios ? 'Ocultar condominios' : 'Mostrar condominios'}
+                </button>
+              ) : null}
               <button
                 type="button"
                 className="theme-toggle-btn"
@@ -761,9 +1152,11 @@ useEffect(() => {
                       </button>
                     </div>
                   </div>
-                  <p className="panel__hint">
-                    Elige un modo de reto. Haz clic en el municipio correcto cuando se muestre el nombre.
-                  </p>
+                  <QuizLevelSwitch value={nivelGeografico} onChange={setNivelGeografico} />
+                  <QuestionTypeSwitch value={tipoPregunta} onChange={setTipoPregunta} />
+                  <TimingModeSwitch value={ajustesTiempo} onChange={setAjustesTiempo} />
+                  <HintPenaltySwitch value={penalizacionesPista} onChange={setPenalizacionesPista} />
+                  <p className="panel__hint">Elige un modo de reto. {AYUDA_TIPO[tipoPregunta]}</p>
                   <div className="panel__actions">
                     <button
                       type="button"
@@ -786,6 +1179,13 @@ useEffect(() => {
                     >
                       Completar mapa
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => startReto('repaso')}
+                      className="ghost-button"
+                    >
+                      Repaso ({repasoPendientes} pendientes)
+                    </button>
                   </div>
                   <div className="panel__actions-group">
                     <span className="panel__actions-group-title">Más poblados de tus provincias</span>
@@ -813,22 +1213,53 @@ useEffect(() => {
                       </button>
                     </div>
                   </div>
+                  <ChallengeCodePanel codigo={codigoReto} onSubmit={startCodigoReto} />
+                  <button
+                    type="button"
+                    className="ghost-button ghost-button--dense"
+                    onClick={() => setShowHistorial(true)}
+                  >
+                    Historial y récords
+                  </button>
 
                   {preguntas.length > 0 ? (
                     <div className="panel__summary">
                       <p>
                         Preguntas: {preguntas.length} · Aciertos: {aciertos} · Fallos: {fallos}
                       </p>
+                      <p>
+                        Puntos: {formatNumber(puntos)}
+                        {typeof errorMedioKm === 'number'
+                          ? ` · Error medio: ${formatNumber(Math.round(errorMedioKm))} km`
+                          : ''}
+                      </p>
                       {quizFinalizado ? (
-                        <button type="button" className="ghost-button" onClick={handleResetQuiz}>
-                          Reiniciar reto
-                        </button>
+                        <>
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => startRevision(0)}
+                          >
+                            Revisar respuestas
+                          </button>
+                          <button type="button" className="ghost-button" onClick={handleResetQuiz}>
+                            Reiniciar reto
+                          </button>
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => setShowHistorial(true)}
+                          >
+                            Ver historial
+                          </button>
+                        </>
                       ) : null}
                     </div>
                   ) : null}
                 </div>
               ) : (
                 <div className="panel__content panel__list">
+                  <MunicipioSearch municipios={availableMunicipios} onSelect={handleSearchSelect} />
                   <ul className="sidebar__list">
                     {availableMunicipios.map((municipio) => (
                       <li key={municipio.id}>
@@ -876,12 +1307,69 @@ useEffect(() => {
                       ?
                     </button>
                     <div className="quiz-hud__question-box">
-                      <div className="quiz-hud__question-text">
-                        {quizFinalizado
-                          ? '¡Reto completado!'
-                          : `¿Dónde está ${activeQuestion?.nombre ?? ''}?`}
-                      </div>
-                      {!quizFinalizado ? (
+                      {preguntaRevisada && revision ? (
+                        <QuizReviewPanel
+                          preguntas={preguntas}
+                          nivel={nivelPartida}
+                          index={revision.index}
+                          onChangeIndex={startRevision}
+                          onClose={() => setRevision(null)}
+                          onRetryFailed={startFallosReto}
+                        />
+                      ) : (
+                        <div className="quiz-hud__question-text">
+                          {quizFinalizado
+                            ? '¡Reto completado!'
+                            : isHighlightQuestion
+                              ? PREGUNTA_RESALTADO[nivelPartida]
+                              : activeQuestion?.enunciado ??
+                                `¿Dónde está ${activeQuestion?.nombre ?? ''}?`}
+                        </div>
+                      )}
+                      {quizFinalizado && !preguntaRevisada ? (
+                        <div className="quiz-review__nav">
+                          <button
+                            type="button"
+                            className="ghost-button ghost-button--dense"
+                            onClick={() => startRevision(0)}
+                          >
+                            Revisar respuestas
+                          </button>
+                          <button
+                            type="button"
+                            className="ghost-button ghost-button--dense"
+                            onClick={startFallosReto}
+                            disabled={fallidas === 0}
+                          >
+                            Repetir fallos ({fallidas})
+                          </button>
+                        </div>
+                      ) : null}
+                      {isHighlightQuestion && activeQuestion?.tipo === 'opciones' ? (
+                        <ChoiceAnswerPanel
+                          opciones={activeOpciones}
+                          disabled={paused}
+                          onChoose={handleChoiceAnswer}
+                        />
+                      ) : null}
+                      {isHighlightQuestion && activeQuestion?.tipo === 'nombrar' ? (
+                        <NameAnswerForm
+                          key={activeQuestion?.id}
+                          disabled={paused}
+                          onSubmit={handleNameAnswer}
+                        />
+                      ) : null}
+                      {activeQuestion && !quizFinalizado && nivelPartida === 'municipio' ? (
+                        <HintPanel
+                          key={activeQuestion.id}
+                          municipioId={activeQuestion.municipioId}
+                          nivel={pistasUsadas}
+                          penalizaciones={penalizacionesPista}
+                          disabled={paused}
+                          onRequest={handlePedirPista}
+                        />
+                      ) : null}
+                      {!quizFinalizado && restanteMs !== undefined ? (
                         <div className="quiz-hud__timer">
                           <div
                             className="quiz-hud__timer-fill"
@@ -890,9 +1378,7 @@ useEffect(() => {
                         </div>
                       ) : null}
                       {!quizFinalizado ? (
-                        <div className="quiz-hud__timer-info">
-                          {paused ? 'Pausado' : `Tiempo restante: ${timeLeft}s`}
-                        </div>
+                        <div className="quiz-hud__timer-info">{timerInfo}</div>
                       ) : null}
                     </div>
                     <div className="quiz-hud__actions">
@@ -900,12 +1386,22 @@ useEffect(() => {
                         type="button"
                         className="quiz-hud__icon-btn"
                         aria-label={paused ? 'Reanudar' : 'Pausar'}
-                        onClick={() => setPaused((p) => !p)}
+                        onClick={togglePausa}
                         disabled={preguntas.length === 0 || quizFinalizado}
                         title={paused ? 'Reanudar' : 'Pausar'}
                       >
                         {paused ? '▶' : '⏸'}
                       </button>
+                      <button
+                        type="button"
+                        className="quiz-hud__icon-btn"
+                        aria-label="Saltar pregunta"
+                        onClick={saltarPregunta}
+                        disabled={!puedeSaltar || paused || quizFinalizado}
+                        title="Saltar pregunta: volverá a salir al final"
+                      >
+                        ⏭
+                      </button>
                       <button
                         type="button"
                         className={clsx('quiz-hud__icon-btn', {
@@ -928,7 +1424,11 @@ useEffect(() => {
                   </div>
                   <div className="quiz-hud__stats">
                     <div className="quiz-hud__stat">
-                      Aciertos: <strong>{aciertos}</strong> ({progresoAciertos}%) · Fallos: {fallos}
+                      Aciertos: <strong>{aciertos}</strong> ({progresoAciertos}%) · Fallos: {fallos} ·
+                      Puntos: <strong>{formatNumber(puntos)}</strong>
+                      {quizFinalizado && typeof errorMedioKm === 'number'
+                        ? ` · Error medio: ${formatNumber(Math.round(errorMedioKm))} km`
+                        : null}
                     </div>
                     <div className="quiz-hud__progress">
                       <div className="quiz-hud__progress-bar">
@@ -947,15 +1447,22 @@ useEffect(() => {
             </div>
           ) : null}
 
-          <MapCanvasAny
-            features={visibleFeatures}
-            highlightMunicipioId={selected?.id}
+          <MapCanvas
+            features={mapFeatures}
+            highlightMunicipioId={
+              preguntaRevisada?.municipioId ??
+              (isHighlightQuestion ? activeQuestion?.municipioId : selected?.id)
+            }
             colorMode={colorMode}
             modo={modo}
-            infoById={spanishMunicipiosById}
-            selectedCommunities={selectedCommunities}
-            selectedProvinces={selectedProvinces}
-            statuses={mapaEstados}
+            infoById={divisionInfoById[nivelMapa]}
+            selectedCommunities={mapaDivisionCompleto ? [] : selectedCommunities}
+            selectedProvinces={
+              mapaDivisionCompleto || nivelMapa === 'comunidad'
+                ? []
+                : provinciaPista ?? selectedProvinces
+            }
+            statuses={reviewStatuses ?? mapaEstados}
             correctBlinkId={correctBlinkId}
             celebration={celebration}
             lockedMunicipios={
@@ -963,7 +1470,19 @@ useEffect(() => {
             }
             showLabels={modo === 'estudio' && showMunicipioLabels}
             theme={theme}
-            focusedMunicipios={focusedQuizMunicipios}
+            focusedMunicipios={reviewFocus ?? zonaPista ?? focusedQuizMunicipios}
+            colorById={colorPorNivel[nivelMapa]}
+            focusRequest={focusRequest}
+            camera={cameraRequest}
+            onCameraChange={handleCameraChange}
+            review={reviewRequest}
+            eatims={eatimsVisibles}
+            entidades={entidadesVisibles}
+            showEntidadLabels={modo === 'estudio'}
+            onSelectPunto={handleSelectPunto}
+            territorios={territoriosVisibles}
+            selectedTerritorioId={territorioSeleccionado?.id}
+            onSelectTerritorio={setSelectedTerritorioId}
             onSelect={handleSelectMunicipio}
           />
           {isMobile ? (
@@ -974,11 +1493,16 @@ useEffect(() => {
               onChangeColorMode={(mode) => setColorMode(mode)}
               showMunicipioLabels={showMunicipioLabels}
               onToggleLabels={() => setShowMunicipioLabels((value) => !value)}
+              showTerritorios={showTerritorios}
+              onToggleTerritorios={toggleTerritorios}
               theme={theme}
               onToggleTheme={toggleTheme}
               open={mobileControlsOpen}
               onToggleOpen={() => setMobileControlsOpen((prev) => !prev)}
-              onOpenRetoModal={() => setShowRetoModal(true)}
+              onOpenRetoModal={() => {
+                setAhoraRepaso(Date.now())
+                setShowRetoModal(true)
+              }}
             />
           ) : null}
           {floatingLabel ? (
@@ -997,7 +1521,11 @@ useEffect(() => {
             </div>
           ) : null}
         </div>
-        <MunicipioInfoPanel municipio={selected} />
+        <MunicipioInfoPanel
+          municipio={selected}
+          territorio={territorioSeleccionado}
+          onSelectMunicipio={modo === 'estudio' ? handleSelectMunicipio : undefined}
+        />
       </div>
       </AppShell>
     </>
@@ -1013,6 +1541,8 @@ type MobileControlsProps = {
   onChangeColorMode: (mode: ColorMode) => void
   showMunicipioLabels: boolean
   onToggleLabels: () => void
+  showTerritorios: boolean
+  onToggleTerritorios: () => void
   theme: 'oscuro' | 'claro'
   onToggleTheme: () => void
   open: boolean
@@ -1027,6 +1557,8 @@ const MobileFloatingControls = ({
   onChangeColorMode,
   showMunicipioLabels,
   onToggleLabels,
+  showTerritorios,
+  onToggleTerritorios,
   theme,
   onToggleTheme,
   open,
@@ -1095,6 +1627,18 @@ const MobileFloatingControls = ({
           >
             {showMunicipioLabels ? 'Ocultar nombres' : 'Mostrar nombres'}
           </button>
+        ) : null}
+        {modo === 'estudio' ? (
+          <button
+            type="button"
+            className="ghost-button ghost-button--dense"
+            onClick={() => {
+              onToggleTerritorios()
+              closeIfOpen()
+            }}
+          >
+            {showTerritorios ? 'Ocultar condominios' : 'Mostrar condominios'}
+          </button>
         ) : (
           <button
             type="button"
@@ -1153,6 +1697,56 @@ const MobileFloatingControls = ({
   )
 }
 
+// La cámara solo reemplaza la entrada actual: moverse por el mapa no debe llenar el historial
+const handleCameraChange = (camera: MapCamera) => {
+  const hash = serializeCamera(camera)
+  if (hash === window.location.hash) return
+  const { pathname, search } = window.location
+  window.history.replaceState(window.history.state, '', `${pathname}${search}${hash}`)
+}
+
+/**
+ * Refleja en la query el estado compartible y lo restaura al navegar atrás/adelante. La primera
+ * escritura solo normaliza la URL de entrada; las siguientes crean entradas de historial.
+ */
+function useUrlStateSync(
+  state: Omit<UrlState, 'camara'>,
+  onNavigate: (state: UrlState) => void
+) {
+  const query = serializeUrlState(state)
+  const syncedRef = useRef(false)
+  // Tras navegar, el estado puede no reflejar la URL (una partida en curso ignora el modo, el
+  // store normaliza la selección): esa corrección sustituye la entrada en lugar de añadir otra,
+  // o se perdería el historial hacia delante
+  const navegandoRef = useRef(false)
+  const [navegaciones, setNavegaciones] = useState(0)
+
+  useEffect(() => {
+    const { pathname, search, hash } = window.location
+    if (query !== search) {
+      const url = `${pathname}${query}${hash}`
+      if (syncedRef.current && !navegandoRef.current) {
+        window.history.pushState(null, '', url)
+      } else {
+        window.history.replaceState(null, '', url)
+      }
+    }
+    syncedRef.current = true
+    navegandoRef.current = false
+  }, [query, navegaciones])
+
+  useEffect(() => {
+    const handlePopState = () => {
+      navegandoRef.current = true
+      onNavigate(readUrlState())
+      // Fuerza la sincronización aunque la navegación no cambie el estado
+      setNavegaciones((total) => total + 1)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [onNavigate])
+}
+
 function useCelebrationCue(
   celebration: CelebrationState | undefined,
   onClear: () => void,
@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useState } from 'react'
+import clsx from 'clsx'
+import {
+  comunidades as comunidadSummaries,
+  divisionInfoById,
+  provinceById
+} from '../../data/spainDivisions'
+import { borrarPartidas, leerPartidas, type RegistroPartida } from '../../store/runHistory'
+import {
+  REGION_ESPANA,
+  calcularMejoresMarcas,
+  filtrarPartidas,
+  ordenarPorPuntos,
+  porcentajeAciertos,
+  tiempoMedioMs,
+  tipoDePartida,
+  type FiltroPartidas,
+  type TipoReto
+} from '../../utils/leaderboard'
+
+type RunHistoryModalProps = {
+  onClose: () => void
+}
+
+const RANKING_LIMITE = 10
+const RECIENTES_LIMITE = 20
+
+const ETIQUETA_TIPO: Record<TipoReto, string> = {
+  'reto-10': '10 aleatorias',
+  'reto-provincia': 'Provincias seleccionadas',
+  'mas-poblados': 'Más poblados',
+  'reto-total': 'Completar mapa',
+  repaso: 'Repaso',
+  fallos: 'Repetir fallos'
+}
+
+const ETIQUETA_NIVEL = { provincia: 'provincias', comunidad: 'comunidades' } as const
+
+const comunidadNombreById = new Map(
+  comunidadSummaries.map((comunidad) => [comunidad.id, comunidad.nombre])
+)
+
+const formatNumber = (value: number) => value.toLocaleString('es-ES')
+
+const formatFecha = (fecha: number) =>
+  new Date(fecha).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })
+
+const formatSegundos = (ms?: number) =>
+  typeof ms === 'number' ? `${(ms / 1000).toLocaleString('es-ES', { maximumFractionDigits: 1 })} s` : '—'
+
+const etiquetaPartida = (partida: RegistroPartida) => {
+  const tipoReto = tipoDePartida(partida)
+  const tipo = partida.masPoblados
+    ? `${partida.masPoblados} más poblados`
+    : tipoReto
+      ? ETIQUETA_TIPO[tipoReto]
+      : 'Estudio'
+  return partida.nivel && partida.nivel !== 'municipio'
+    ? `${tipo} (${ETIQUETA_NIVEL[partida.nivel]})`
+    : tipo
+}
+
+// Con pocas provincias se nombran; si no, las comunidades a las que pertenecen
+const etiquetaRegion = (partida: RegistroPartida) => {
+  if (!partida.provincias.length) return 'España'
+  if (partida.provincias.length <= 3) {
+    return partida.provincias
+      .map((provinciaId) => provinceById.get(provinciaId)?.nombre ?? provinciaId)
+      .join(', ')
+  }
+  return partida.comunidades
+    .map((comunidadId) => comunidadNombreById.get(comunidadId) ?? comunidadId)
+    .join(', ')
+}
+
+const respuestaDada = (
+  partida: RegistroPartida,
+  pregunta: RegistroPartida['preguntas'][number]
+) => {
+  if (pregunta.respuestaTexto !== undefined) return pregunta.respuestaTexto || '—'
+  if (pregunta.respuestaEntidad) return pregunta.respuestaEntidad
+  if (!pregunta.respuesta) return pregunta.estado === 'fallida' ? 'Sin respuesta' : '—'
+  const recintos = divisionInfoById[partida.nivel ?? 'municipio']
+  return recintos.get(pregunta.respuesta)?.nombre ?? pregunta.respuesta
+}
+
+export const RunHistoryModal = ({ onClose }: RunHistoryModalProps) => {
+  const [partidas, setPartidas] = useState<RegistroPartida[]>()
+  const [error, setError] = useState(false)
+  const [filtro, setFiltro] = useState<FiltroPartidas>({})
+  const [abierta, setAbierta] = useState<string>()
+
+  useEffect(() => {
+    let cancelado = false
+    leerPartidas()
+      .then((resultado) => {
+        if (!cancelado) setPartidas(resultado)
+      })
+      .catch((readError) => {
+        console.warn('No se pudo leer el historial de partidas', readError)
+        if (!cancelado) setError(true)
+      })
+    return () => {
+      cancelado = true
+    }
+  }, [])
+
+  const regiones = useMemo(() => {
+    const ids = new Set((partidas ?? []).flatMap((partida) => partida.comunidades))
+    return comunidadSummaries.filter((comunidad) => ids.has(comunidad.id))
+  }, [partidas])
+
+  const filtradas = useMemo(() => filtrarPartidas(partidas ?? [], filtro), [partidas, filtro])
+  const marcas = useMemo(() => calcularMejoresMarcas(filtradas), [filtradas])
+  const ranking = useMemo(
+    () => ordenarPorPuntos(filtradas).slice(0, RANKING_LIMITE),
+    [filtradas]
+  )
+  const recientes = filtradas.slice(0, RECIENTES_LIMITE)
+
+  const handleBorrar = async () => {
+    if (!window.confirm('¿Borrar todas las partidas guardadas en este navegador?')) return
+    try {
+      await borrarPartidas()
+      setPartidas([])
+    } catch (deleteError) {
+      console.warn('No se pudo borrar el historial de partidas', deleteError)
+    }
+  }
+
+  return (
+    <div className="reto-modal-overlay" onClick={onClose}>
+      <div
+        className="reto-modal run-history"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="run-history-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 id="run-history-title" className="reto-modal__title">
+          Historial y récords
+        </h2>
+        <p className="reto-modal__subtitle">
+          Las partidas terminadas se guardan solo en este navegador.
+        </p>
+
+        <div className="run-history__filters">
+          <label className="select-control">
+            <span>Tipo de reto</span>
+            <select
+              value={filtro.tipo ?? ''}
+              onChange={(event) =>
+                setFiltro((prev) => ({
+                  ...prev,
+                  tipo: (event.target.value || undefined) as TipoReto | undefined
+                }))
+              }
+            >
+              <option value="">Todos</option>
+              {(Object.keys(ETIQUETA_TIPO) as TipoReto[]).map((tipo) => (
+                <option key={tipo} value={tipo}>
+                  {ETIQUETA_TIPO[tipo]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="select-control">
+            <span>Región</span>
+            <select
+              value={filtro.region ?? ''}
+              onChange={(event) =>
+                setFiltro((prev) => ({ ...prev, region: event.target.value || undefined }))
+              }
+            >
+              <option value="">Todas</option>
+              <option value={REGION_ESPANA}>Toda España</option>
+              {regiones.map((comunidad) => (
+                <option key={comunidad.id} value={comunidad.id}>
+                  {comunidad.nombre}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error ? (
+          <p className="run-history__empty">No se pudo abrir el historial en este navegador.</p>
+        ) : !partidas ? (
+          <p className="run-history__empty">Cargando…</p>
+        ) : filtradas.length === 0 ? (
+          <p className="run-history__empty">Todavía no hay partidas terminadas con estos filtros.</p>
+        ) : (
+          <>
+            <div className="run-history__bests">
+              <div className="run-history__best">
+                <span>Mejor puntuación</span>
+                <strong>{formatNumber(marcas.mejorPuntos?.puntos ?? 0)}</strong>
+              </div>
+              <div className="run-history__best">
+                <span>Mejor acierto</span>
+                <strong>{marcas.mejorPorcentaje ? porcentajeAciertos(marcas.mejorPorcentaje) : 0}%</strong>
+              </div>
+              <div className="run-history__best">
+                <span>Más rápida</span>
+                <strong>
+                  {formatSegundos(marcas.masRapida ? tiempoMedioMs(marcas.masRapida) : undefined)}
+                </strong>
+              </div>
+              <div className="run-history__best">
+                <span>Partidas</span>
+                <strong>{formatNumber(marcas.partidas)}</strong>
+              </div>
+            </div>
+
+            <h3 className="reto-modal__group-title">Clasificación</h3>
+            <ol className="run-history__ranking">
+              {ranking.map((partida) => (
+                <li key={partida.id}>
+                  <strong>{formatNumber(partida.puntos)}</strong>
+                  <span>
+                    {etiquetaPartida(partida)} · {etiquetaRegion(partida)} ·{' '}
+                    {porcentajeAciertos(partida)}%
+                  </span>
+                  <small>{formatFecha(partida.fecha)}</small>
+                </li>
+              ))}
+            </ol>
+
+            <h3 className="reto-modal__group-title">Partidas recientes</h3>
+            <ul className="run-history__list">
+              {recientes.map((partida) => (
+                <li key={partida.id}>
+                  <button
+                    type="button"
+                    className={clsx('run-history__run', {
+                      'run-history__run--open': abierta === partida.id
+                    })}
+                    aria-expanded={abierta === partida.id}
+                    onClick={() => setAbierta((prev) => (prev === partida.id ? undefined : partida.id))}
+                  >
+                    <span>
+                      {formatFecha(partida.fecha)} · {etiquetaPartida(partida)} ·{' '}
+                      {etiquetaRegion(partida)}
+                    </span>
+                    <small>
+                      {partida.aciertos}/{partida.total} aciertos · {formatNumber(partida.puntos)} puntos
+                      {partida.duracionMs ? ` · ${formatSegundos(partida.duracionMs)}` : ''}
+                    </small>
+                  </button>
+                  {abierta === partida.id ? (
+                    <div className="run-history__detail">
+                      {partida.codigoReto ? (
+                        <p>
+                          Código de reto: <code>{partida.codigoReto}</code>
+                        </p>
+                      ) : null}
+                      <table>
+                        <thead>
+                          <tr>
+                            <th>Pregunta</th>
+                            <th>Respuesta</th>
+                            <th>Tiempo</th>
+                            <th>Distancia</th>
+                            <th>Pistas</th>
+                            <th>Puntos</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {partida.preguntas.map((pregunta) => (
+                            <tr
+                              key={pregunta.municipioId}
+                              className={`run-history__answer--${pregunta.estado}`}
+                            >
+                              <td title={pregunta.enunciado}>{pregunta.nombre}</td>
+                              <td>{respuestaDada(partida, pregunta)}</td>
+                              <td>{formatSegundos(pregunta.tiempoMs)}</td>
+                              <td>
+                                {typeof pregunta.distanciaKm === 'number'
+                                  ? `${formatNumber(Math.round(pregunta.distanciaKm))} km`
+                                  : '—'}
+                              </td>
+                              <td>{pregunta.pistas ?? 0}</td>
+                              <td>{formatNumber(pregunta.puntos ?? 0)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="reto-modal__footer">
+          {partidas?.length ? (
+            <button type="button" className="ghost-button" onClick={handleBorrar}>
+              Borrar historial
+            </button>
+          ) : null}
+          <button type="button" className="ghost-button" onClick={onClose}>
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { memo, useEffect, useMemo, useRef, useState } from 'react'
 import type { FeatureCollection, Feature, Geometry } from 'geojson'
 import maplibregl, {
+  type ExpressionSpecification,
   type GeoJSONSource,
   type LngLatBoundsLike,
   type Map as MapLibreMap,
@@ -8,6 +9,7 @@ import maplibregl, {
 } from 'maplibre-gl'
 import { geoBounds, geoCentroid } from 'd3-geo'
 import { assignColors } from '../../utils/coloring'
+import type { MapCamera } from '../../utils/urlState'
 import type {
   CelebrationState,
   ColorMode,
@@ -15,12 +17,33 @@ import type {
 } from '../../store/gameStore'
 import type {
   ComunidadId,
+  Coordenadas,
+  EntidadInfo,
   MunicipioId,
   MunicipioInfo,
   ProvinciaId,
   RespuestaEstado
 } from '../../types/municipio'
 
+// Petición de encuadre de uno o varios municipios: `key` cambia en cada petición para poder repetirla
+export type MapFocusRequest = {
+  municipioIds: MunicipioId[]
+  key: number
+}
+
+// Cámara pedida desde fuera (enlace compartido, navegación atrás/adelante)
+export type MapCameraRequest = MapCamera & {
+  key: number
+}
+
+// Revisión de una respuesta: el municipio pedido junto al marcado y la distancia entre ambos
+export type MapReviewRequest = {
+  objetivoId: MunicipioId
+  respuestaId?: MunicipioId
+  distanciaKm?: number
+  key: number
+}
+
 type MapCanvasProps = {
   features: Feature<Geometry, Record<string, unknown>>[]
   highlightMunicipioId?: string
@@ -37,6 +60,20 @@ type MapCanvasProps = {
   showLabels?: boolean
   theme: 'oscuro' | 'claro'
   focusedMunicipios?: Set<MunicipioId> | null
+  colorById?: Map<string, string>
+  focusRequest?: MapFocusRequest
+  camera?: MapCameraRequest
+  onCameraChange?: (camera: MapCamera) => void
+  review?: MapReviewRequest
+  eatims?: EntidadInfo[]
+  entidades?: EntidadInfo[]
+  // Sin nombres, para que los puntos no den la respuesta en las preguntas de localidad
+  showEntidadLabels?: boolean
+  // Clic en cualquier punto del mapa, con sus coordenadas
+  onSelectPunto?: (punto: Coordenadas) => void
+  territorios?: Feature<Geometry, Record<string, unknown>>[]
+  selectedTerritorioId?: string
+  onSelectTerritorio?: (territorioId: string) => void
 }
 
 type MunicipioFeatureProperties = {
@@ -67,6 +104,28 @@ const MAP_HIGHLIGHT_LAYER_ID = 'municipios-highlight'
 const MAP_LABEL_LAYER_ID = 'municipios-labels'
 const MAP_CELEBRATION_SOURCE_ID = 'celebration'
 const MAP_CELEBRATION_LAYER_ID = 'celebration-layer'
+const MAP_REVIEW_SOURCE_ID = 'review'
+const MAP_REVIEW_LINE_LAYER_ID = 'review-line'
+const MAP_REVIEW_POINT_LAYER_ID = 'review-points'
+const MAP_REVIEW_LABEL_LAYER_ID = 'review-label'
+const MAP_EATIM_SOURCE_ID = 'eatims'
+const MAP_EATIM_POINT_LAYER_ID = 'eatims-points'
+const MAP_EATIM_LABEL_LAYER_ID = 'eatims-label'
+// Las EATIM aparecen al acercarse a escala comarcal y se rotulan al acercarse algo más
+const EATIM_MIN_ZOOM = 8
+const EATIM_LABEL_MIN_ZOOM = 10
+const MAP_ENTIDAD_SOURCE_ID = 'entidades'
+const MAP_ENTIDAD_POINT_LAYER_ID = 'entidades-points'
+const MAP_ENTIDAD_LABEL_LAYER_ID = 'entidades-label'
+// Hay muchas más entidades de población que EATIM: aparecen y se rotulan más cerca
+const ENTIDAD_MIN_ZOOM = 9
+const ENTIDAD_LABEL_MIN_ZOOM = 11
+const MAP_TERRITORIO_SOURCE_ID = 'territorios'
+const MAP_TERRITORIO_FILL_LAYER_ID = 'territorios-fill'
+const MAP_TERRITORIO_LINE_LAYER_ID = 'territorios-outline'
+const TERRITORIO_COLOR = '#a78bfa'
+const TERRITORIO_SELECTED_COLOR = '#facc15'
+
 const BASE_SOURCE_IDS = {
   roads: 'basemap-roads'
 } as const
@@ -79,11 +138,15 @@ const MASK_LAYER_ID = 'basemap-mask-layer'
 const DEFAULT_CENTER: [number, number] = [-3.7, 40.0]
 const DEFAULT_ZOOM = 6
 
+// Glifos servidos junto a la app (scripts/build-glyphs.mjs) para que las etiquetas funcionen sin red.
+// MapLibre necesita una URL absoluta y `base` es relativa, así que se resuelve contra la página.
+const GLYPHS_URL = `${new URL(import.meta.env.BASE_URL, window.location.href).href}fonts/{fontstack}/{range}.pbf`
+
 const blankStyle: StyleSpecification = {
   version: 8,
   sources: {},
   layers: [],
-  glyphs: 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf'
+  glyphs: GLYPHS_URL
 }
 
 const BASE_LAYER_CONFIG: Record<
@@ -452,6 +515,178 @@ const EMPTY_COLLECTION: FeatureCollection = {
   features: []
 }
 
+const findMunicipioFeature = (
+  features: Feature<Geometry, Record<string, unknown>>[],
+  municipioId: MunicipioId
+) => features.find((item) => String(item.id ?? item.properties?.NATCODE ?? '') === municipioId)
+
+// Caja que envuelve a los municipios indicados que estén en el mapa
+const boundsOfMunicipios = (
+  features: Feature<Geometry, Record<string, unknown>>[],
+  municipioIds: MunicipioId[]
+): LngLatBoundsLike | undefined => {
+  const encontrados = municipioIds
+    .map((id) => findMunicipioFeature(features, id))
+    .filter((feature): feature is Feature<Geometry, Record<string, unknown>> => Boolean(feature))
+  if (!encontrados.length) return undefined
+  const [[minLon, minLat], [maxLon, maxLat]] = geoBounds({
+    type: 'FeatureCollection',
+    features: encontrados
+  })
+  return [
+    [minLon, minLat],
+    [maxLon, maxLat]
+  ]
+}
+
+const centroidOf = (feature: Feature<Geometry, Record<string, unknown>>) => {
+  const [lon, lat] = geoCentroid(feature)
+  return Number.isFinite(lat) && Number.isFinite(lon) ? [lon, lat] : undefined
+}
+
+// Línea entre los centroides del municipio pedido y el marcado, con la distancia en el punto medio
+const buildReviewCollection = (
+  review: MapReviewRequest | undefined,
+  features: Feature<Geometry, Record<string, unknown>>[]
+): FeatureCollection => {
+  if (!review?.respuestaId || review.respuestaId === review.objetivoId) return EMPTY_COLLECTION
+  const objetivo = findMunicipioFeature(features, review.objetivoId)
+  const respuesta = findMunicipioFeature(features, review.respuestaId)
+  const origen = objetivo ? centroidOf(objetivo) : undefined
+  const destino = respuesta ? centroidOf(respuesta) : undefined
+  if (!origen || !destino) return EMPTY_COLLECTION
+
+  const label =
+    typeof review.distanciaKm === 'number'
+      ? `${Math.round(review.distanciaKm).toLocaleString('es-ES')} km`
+      : ''
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [origen, destino] },
+        properties: { label }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: origen },
+        properties: { color: '#22c55e' }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: destino },
+        properties: { color: '#f87171' }
+      }
+    ]
+  }
+}
+
+const buildEntidadCollection = (entidades: EntidadInfo[] | undefined): FeatureCollection => {
+  if (!entidades?.length) return EMPTY_COLLECTION
+  return {
+    type: 'FeatureCollection',
+    features: entidades.flatMap((entidad): Feature[] =>
+      entidad.coordenadas
+        ? [
+            {
+              type: 'Feature',
+              id: entidad.id,
+              geometry: {
+                type: 'Point',
+                coordinates: [entidad.coordenadas.lon, entidad.coordenadas.lat]
+              },
+              properties: { nombre: entidad.nombre }
+            }
+          ]
+        : []
+    )
+  }
+}
+
+type CapaPuntos = {
+  sourceId: string
+  pointLayerId: string
+  labelLayerId: string
+  minZoom: number
+  labelMinZoom: number
+  color: string
+  radius: number
+}
+
+const CAPA_EATIMS: CapaPuntos = {
+  sourceId: MAP_EATIM_SOURCE_ID,
+  pointLayerId: MAP_EATIM_POINT_LAYER_ID,
+  labelLayerId: MAP_EATIM_LABEL_LAYER_ID,
+  minZoom: EATIM_MIN_ZOOM,
+  labelMinZoom: EATIM_LABEL_MIN_ZOOM,
+  color: '#fb923c',
+  radius: 4
+}
+
+const CAPA_ENTIDADES: CapaPuntos = {
+  sourceId: MAP_ENTIDAD_SOURCE_ID,
+  pointLayerId: MAP_ENTIDAD_POINT_LAYER_ID,
+  labelLayerId: MAP_ENTIDAD_LABEL_LAYER_ID,
+  minZoom: ENTIDAD_MIN_ZOOM,
+  labelMinZoom: ENTIDAD_LABEL_MIN_ZOOM,
+  color: '#38bdf8',
+  radius: 3.5
+}
+
+// Crea la capa de puntos la primera vez y, después, solo actualiza sus datos y colores
+const sincronizarCapaPuntos = (
+  map: MapLibreMap,
+  capa: CapaPuntos,
+  collection: FeatureCollection,
+  theme: 'oscuro' | 'claro'
+) => {
+  const stroke = theme === 'oscuro' ? '#0f172a' : '#ffffff'
+  const textColor = theme === 'oscuro' ? '#fed7aa' : '#7c2d12'
+  const halo = theme === 'oscuro' ? '#0f172a' : '#ffffff'
+  const source = map.getSource(capa.sourceId) as GeoJSONSource | undefined
+  if (source) {
+    source.setData(collection)
+    map.setPaintProperty(capa.pointLayerId, 'circle-stroke-color', stroke)
+    map.setPaintProperty(capa.labelLayerId, 'text-color', textColor)
+    map.setPaintProperty(capa.labelLayerId, 'text-halo-color', halo)
+    return
+  }
+  if (collection === EMPTY_COLLECTION) return
+
+  map.addSource(capa.sourceId, { type: 'geojson', data: collection })
+  map.addLayer({
+    id: capa.pointLayerId,
+    type: 'circle',
+    source: capa.sourceId,
+    minzoom: capa.minZoom,
+    paint: {
+      'circle-radius': capa.radius,
+      'circle-color': capa.color,
+      'circle-stroke-color': stroke,
+      'circle-stroke-width': 1.5
+    }
+  })
+  map.addLayer({
+    id: capa.labelLayerId,
+    type: 'symbol',
+    source: capa.sourceId,
+    minzoom: capa.labelMinZoom,
+    layout: {
+      'text-field': ['get', 'nombre'],
+      'text-font': ['Noto Sans Regular'],
+      'text-size': 11,
+      'text-offset': [0, 1],
+      'text-anchor': 'top'
+    },
+    paint: {
+      'text-color': textColor,
+      'text-halo-color': halo,
+      'text-halo-width': 1.2
+    }
+  })
+}
+
 const WORLD_OUTER_RING: [number, number][] = [
   [-179.99, -85],
   [-179.99, 85],
@@ -554,12 +789,32 @@ const MapCanvasComponent = ({
   lockedMunicipios,
   showLabels = false,
   theme,
-  focusedMunicipios
+  focusedMunicipios,
+  colorById: colorByIdProp,
+  focusRequest,
+  camera,
+  onCameraChange,
+  review,
+  eatims,
+  entidades,
+  showEntidadLabels = true,
+  onSelectPunto,
+  territorios,
+  selectedTerritorioId,
+  onSelectTerritorio
 }: MapCanvasProps) => {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const mapRef = useRef<MapLibreMap | null>(null)
   const [mapReady, setMapReady] = useState(false)
-  const hasFitBoundsRef = useRef(false)
+  const lastFocusKeyRef = useRef<number | undefined>(undefined)
+  const lastReviewKeyRef = useRef<number | undefined>(undefined)
+  // Si llega una cámara inicial no se encuadra automáticamente la selección
+  const hasFitBoundsRef = useRef(Boolean(camera))
+  const initialCameraRef = useRef(camera)
+  const lastCameraKeyRef = useRef(camera?.key)
+  const onCameraChangeRef = useRef(onCameraChange)
+  const onSelectTerritorioRef = useRef(onSelectTerritorio)
+  const onSelectPuntoRef = useRef(onSelectPunto)
 
   const selectedProvinceSet = useMemo(
     () => new Set<ProvinciaId>(selectedProvinces),
@@ -572,13 +827,14 @@ const MapCanvasComponent = ({
   )
 
   const colorById = useMemo(() => {
+    if (colorByIdProp) return colorByIdProp
     try {
       return assignColors(features)
     } catch (error) {
       console.error('Error assigning colors', error)
       return new Map<string, string>()
     }
-  }, [features])
+  }, [colorByIdProp, features])
 
   const roadsMode = colorMode === 'carreteras'
 
@@ -628,14 +884,30 @@ const MapCanvasComponent = ({
     [roadsMode, dataset.collection.features]
   )
 
+  const reviewCollection = useMemo(
+    () => buildReviewCollection(review, features),
+    [features, review]
+  )
+
+  const eatimCollection = useMemo(() => buildEntidadCollection(eatims), [eatims])
+
+  const entidadCollection = useMemo(() => buildEntidadCollection(entidades), [entidades])
+
+  const territorioCollection = useMemo<FeatureCollection>(
+    () =>
+      territorios?.length ? { type: 'FeatureCollection', features: territorios } : EMPTY_COLLECTION,
+    [territorios]
+  )
+
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return
 
+    const initialCamera = initialCameraRef.current
     const map = new maplibregl.Map({
       container: containerRef.current,
       style: blankStyle,
-      center: DEFAULT_CENTER,
-      zoom: DEFAULT_ZOOM,
+      center: initialCamera ? [initialCamera.lon, initialCamera.lat] : DEFAULT_CENTER,
+      zoom: initialCamera ? initialCamera.zoom : DEFAULT_ZOOM,
       cooperativeGestures: true
     })
 
@@ -645,11 +917,17 @@ const MapCanvasComponent = ({
     const onLoad = () => {
       setMapReady(true)
     }
+    const onMoveEnd = () => {
+      const center = map.getCenter()
+      onCameraChangeRef.current?.({ lon: center.lng, lat: center.lat, zoom: map.getZoom() })
+    }
 
     map.on('load', onLoad)
+    map.on('moveend', onMoveEnd)
 
     return () => {
       map.off('load', onLoad)
+      map.off('moveend', onMoveEnd)
       map.remove()
       mapRef.current = null
     }
@@ -850,6 +1128,188 @@ const MapCanvasComponent = ({
     }
   }, [highlightMunicipioId, mapReady])
 
+  useEffect(() => {
+    onCameraChangeRef.current = onCameraChange
+  }, [onCameraChange])
+
+  useEffect(() => {
+    onSelectTerritorioRef.current = onSelectTerritorio
+  }, [onSelectTerritorio])
+
+  useEffect(() => {
+    onSelectPuntoRef.current = onSelectPunto
+  }, [onSelectPunto])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !camera) return
+    if (lastCameraKeyRef.current === camera.key) return
+    lastCameraKeyRef.current = camera.key
+    mapRef.current.jumpTo({ center: [camera.lon, camera.lat], zoom: camera.zoom })
+  }, [camera, mapReady])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !focusRequest) return
+    // Solo se encuadra una vez por petición, no cada vez que cambia el filtro de municipios
+    if (lastFocusKeyRef.current === focusRequest.key) return
+    lastFocusKeyRef.current = focusRequest.key
+    const bounds = boundsOfMunicipios(features, focusRequest.municipioIds)
+    if (!bounds) return
+    mapRef.current.fitBounds(bounds, { padding: 96, maxZoom: 11, duration: 900 })
+  }, [features, focusRequest, mapReady])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !review) return
+    if (lastReviewKeyRef.current === review.key) return
+    lastReviewKeyRef.current = review.key
+    const bounds = boundsOfMunicipios(
+      features,
+      [review.objetivoId, review.respuestaId].filter((id): id is MunicipioId => Boolean(id))
+    )
+    if (!bounds) return
+    mapRef.current.fitBounds(bounds, { padding: 96, maxZoom: 10, duration: 700 })
+  }, [features, review, mapReady])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    const map = mapRef.current
+    const source = map.getSource(MAP_REVIEW_SOURCE_ID) as GeoJSONSource | undefined
+    if (source) {
+      source.setData(reviewCollection)
+      return
+    }
+    if (reviewCollection === EMPTY_COLLECTION) return
+
+    map.addSource(MAP_REVIEW_SOURCE_ID, { type: 'geojson', data: reviewCollection })
+    map.addLayer({
+      id: MAP_REVIEW_LINE_LAYER_ID,
+      type: 'line',
+      source: MAP_REVIEW_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: {
+        'line-color': '#facc15',
+        'line-width': 2.5,
+        'line-dasharray': [2, 1.5]
+      }
+    })
+    map.addLayer({
+      id: MAP_REVIEW_POINT_LAYER_ID,
+      type: 'circle',
+      source: MAP_REVIEW_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 6,
+        'circle-color': ['get', 'color'],
+        'circle-stroke-color': '#0f172a',
+        'circle-stroke-width': 2
+      }
+    })
+    map.addLayer({
+      id: MAP_REVIEW_LABEL_LAYER_ID,
+      type: 'symbol',
+      source: MAP_REVIEW_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: {
+        'symbol-placement': 'line-center',
+        'text-field': ['get', 'label'],
+        'text-font': ['Noto Sans Regular'],
+        'text-size': 14,
+        'text-offset': [0, -0.8]
+      },
+      paint: {
+        'text-color': '#fde68a',
+        'text-halo-color': '#0f172a',
+        'text-halo-width': 1.5
+      }
+    })
+  }, [mapReady, reviewCollection])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    sincronizarCapaPuntos(mapRef.current, CAPA_EATIMS, eatimCollection, theme)
+  }, [mapReady, eatimCollection, theme])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    const map = mapRef.current
+    sincronizarCapaPuntos(map, CAPA_ENTIDADES, entidadCollection, theme)
+    if (!map.getLayer(MAP_ENTIDAD_LABEL_LAYER_ID)) return
+    map.setLayoutProperty(
+      MAP_ENTIDAD_LABEL_LAYER_ID,
+      'visibility',
+      showEntidadLabels ? 'visible' : 'none'
+    )
+  }, [mapReady, entidadCollection, showEntidadLabels, theme])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    const map = mapRef.current
+    const onClick = (event: maplibregl.MapMouseEvent) => {
+      onSelectPuntoRef.current?.({ lat: event.lngLat.lat, lon: event.lngLat.lng })
+    }
+    map.on('click', onClick)
+    return () => {
+      map.off('click', onClick)
+    }
+  }, [mapReady])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    const map = mapRef.current
+    const source = map.getSource(MAP_TERRITORIO_SOURCE_ID) as GeoJSONSource | undefined
+    if (source) {
+      source.setData(territorioCollection)
+      return
+    }
+    if (territorioCollection === EMPTY_COLLECTION) return
+
+    map.addSource(MAP_TERRITORIO_SOURCE_ID, { type: 'geojson', data: territorioCollection })
+    map.addLayer({
+      id: MAP_TERRITORIO_FILL_LAYER_ID,
+      type: 'fill',
+      source: MAP_TERRITORIO_SOURCE_ID,
+      paint: {
+        'fill-color': TERRITORIO_COLOR,
+        'fill-opacity': 0.45
+      }
+    })
+    map.addLayer({
+      id: MAP_TERRITORIO_LINE_LAYER_ID,
+      type: 'line',
+      source: MAP_TERRITORIO_SOURCE_ID,
+      paint: {
+        'line-color': TERRITORIO_COLOR,
+        'line-width': 1.5,
+        'line-dasharray': [2, 1]
+      }
+    })
+
+    map.on('click', MAP_TERRITORIO_FILL_LAYER_ID, (event) => {
+      const feature = event.features?.[0]
+      if (feature?.id === undefined) return
+      onSelectTerritorioRef.current?.(String(feature.id))
+    })
+    map.on('mouseenter', MAP_TERRITORIO_FILL_LAYER_ID, () => {
+      map.getCanvas().style.cursor = 'pointer'
+    })
+    map.on('mouseleave', MAP_TERRITORIO_FILL_LAYER_ID, () => {
+      map.getCanvas().style.cursor = ''
+    })
+  }, [mapReady, territorioCollection])
+
+  useEffect(() => {
+    if (!mapReady || !mapRef.current) return
+    const map = mapRef.current
+    if (!map.getLayer(MAP_TERRITORIO_FILL_LAYER_ID)) return
+    const color: ExpressionSpecification = [
+      'case',
+      ['==', ['id'], selectedTerritorioId ?? ''],
+      TERRITORIO_SELECTED_COLOR,
+      TERRITORIO_COLOR
+    ]
+    map.setPaintProperty(MAP_TERRITORIO_FILL_LAYER_ID, 'fill-color', color)
+    map.setPaintProperty(MAP_TERRITORIO_LINE_LAYER_ID, 'line-color', color)
+  }, [mapReady, selectedTerritorioId, territorioCollection])
+
   useEffect(() => {
     if (!mapReady || !mapRef.current) return
     const map = mapRef.current
@@ -1,9 +1,23 @@
-import { useState, useEffect } from 'react'
-import type { ComunidadId, MunicipioInfo, ProvinciaId } from '../../types/municipio'
-import { comunidades as comunidadSummaries, provincias as provinciaSummaries } from '../../data/spainDivisions'
+import { useState, useEffect, useMemo } from 'react'
+import type {
+  ComunidadId,
+  MunicipioId,
+  MunicipioInfo,
+  ProvinciaId,
+  TerritorioCompartido
+} from '../../types/municipio'
+import {
+  comunidades as comunidadSummaries,
+  municipioNeighbors,
+  provincias as provinciaSummaries,
+  spanishMunicipiosById
+} from '../../data/spainDivisions'
 
 type MunicipioInfoPanelProps = {
   municipio?: MunicipioInfo
+  // Si hay un territorio compartido seleccionado, la ficha es la suya y no la del municipio
+  territorio?: TerritorioCompartido
+  onSelectMunicipio?: (municipioId: MunicipioId) => void
 }
 
 const EMPTY_STATE: MunicipioInfo = {
@@ -27,11 +41,31 @@ const comunidadNombreById = new Map<ComunidadId, string>(
 const formatComunidad = (comunidadId: string) =>
   comunidadNombreById.get(comunidadId as ComunidadId) ?? comunidadId
 
-export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
+export const MunicipioInfoPanel = ({
+  municipio,
+  territorio,
+  onSelectMunicipio
+}: MunicipioInfoPanelProps) => {
   const [isVisible, setIsVisible] = useState(true)
   const [isMobile, setIsMobile] = useState(false)
   const data = municipio ?? EMPTY_STATE
 
+  const limitrofes = useMemo(() => {
+    if (!municipio) return []
+    return (municipioNeighbors.get(municipio.id) ?? [])
+      .map((id) => spanishMunicipiosById.get(id))
+      .filter((vecino): vecino is MunicipioInfo => Boolean(vecino))
+      .sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
+  }, [municipio])
+
+  const municipiosTerritorio = useMemo(() => {
+    if (!territorio) return []
+    return territorio.municipios
+      .map((id) => spanishMunicipiosById.get(id))
+      .filter((miembro): miembro is MunicipioInfo => Boolean(miembro))
+      .sort((a, b) => a.nombre.localeCompare(b.nombre, 'es'))
+  }, [territorio])
+
   useEffect(() => {
     const checkMobile = () => {
       const mobile = window.innerWidth < 768
@@ -51,12 +85,12 @@ export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
       return
     }
 
-    if (municipio) {
+    if (municipio || territorio) {
       setIsVisible(true)
     } else {
       setIsVisible(false)
     }
-  }, [isMobile, municipio])
+  }, [isMobile, municipio, territorio])
 
   const togglePanel = () => {
     if (!isMobile) return
@@ -69,6 +103,19 @@ export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
     return `${abs}º ${suffix}`
   }
 
+  const renderMunicipioLink = (destino: MunicipioInfo) =>
+    onSelectMunicipio ? (
+      <button
+        type="button"
+        className="municipio-info__neighbor"
+        onClick={() => onSelectMunicipio(destino.id)}
+      >
+        {destino.nombre}
+      </button>
+    ) : (
+      <span className="municipio-info__neighbor">{destino.nombre}</span>
+    )
+
   return (
     <section
       className={`municipio-info-panel ${isVisible ? 'visible' : ''} ${isMobile ? 'mobile' : ''}`}
@@ -76,7 +123,7 @@ export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
       <div className="municipio-info">
         {isMobile ? <div className="municipio-info__handle" aria-hidden="true" /> : null}
         <div className="municipio-info__header">
-          <h2 className="municipio-info__title">{data.nombre}</h2>
+          <h2 className="municipio-info__title">{territorio?.nombre ?? data.nombre}</h2>
           {isMobile && (
             <button
               type="button"
@@ -88,7 +135,46 @@ export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
             </button>
           )}
         </div>
-        {municipio ? (
+        {territorio ? (
+          <dl className="municipio-info__list">
+            <div>
+              <dt>Tipo</dt>
+              <dd>Territorio compartido, sin término municipal propio</dd>
+            </div>
+            {typeof territorio.superficieKm2 === 'number' ? (
+              <div>
+                <dt>Superficie</dt>
+                <dd>
+                  {(territorio.superficieKm2 * 100).toLocaleString('es-ES', {
+                    maximumFractionDigits: 2
+                  })}{' '}
+                  ha
+                </dd>
+              </div>
+            ) : null}
+            {territorio.coordenadas ? (
+              <div>
+                <dt>Coordenadas</dt>
+                <dd>
+                  {formatCoord(territorio.coordenadas.lat, 'lat')} ·{' '}
+                  {formatCoord(territorio.coordenadas.lon, 'lon')}
+                </dd>
+              </div>
+            ) : null}
+            {municipiosTerritorio.length ? (
+              <div>
+                <dt>Municipios que lo comparten ({municipiosTerritorio.length})</dt>
+                <dd>
+                  <ul className="municipio-info__neighbors">
+                    {municipiosTerritorio.map((miembro) => (
+                      <li key={miembro.id}>{renderMunicipioLink(miembro)}</li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            ) : null}
+          </dl>
+        ) : municipio ? (
           <dl className="municipio-info__list">
             <div>
               <dt>Comunidad</dt>
@@ -136,6 +222,55 @@ export const MunicipioInfoPanel = ({ municipio }: MunicipioInfoPanelProps) => {
                 </dd>
               </div>
             ) : null}
+            {municipio.entidades?.length ? (
+              <div>
+                <dt>Entidades de población ({municipio.entidades.length})</dt>
+                <dd>
+                  <details className="municipio-info__details">
+                    <summary>Ver listado</summary>
+                    <ul className="municipio-info__entities">
+                      {municipio.entidades.map((entidad) => (
+                        <li key={entidad.id}>
+                          {entidad.nombre}
+                          {typeof entidad.poblacion === 'number'
+                            ? ` · ${entidad.poblacion.toLocaleString('es-ES')} hab.`
+                            : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                </dd>
+              </div>
+            ) : null}
+            {municipio.eatims?.length ? (
+              <div>
+                <dt>Entidades locales menores ({municipio.eatims.length})</dt>
+                <dd>
+                  <ul className="municipio-info__entities">
+                    {municipio.eatims.map((eatim) => (
+                      <li key={eatim.id}>
+                        {eatim.nombre}
+                        {typeof eatim.altitud === 'number'
+                          ? ` · ${eatim.altitud.toLocaleString('es-ES')} m`
+                          : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            ) : null}
+            {limitrofes.length ? (
+              <div>
+                <dt>Limítrofes ({limitrofes.length})</dt>
+                <dd>
+                  <ul className="municipio-info__neighbors">
+                    {limitrofes.map((vecino) => (
+                      <li key={vecino.id}>{renderMunicipioLink(vecino)}</li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            ) : null}
           </dl>
         ) : (
           <p className="municipio-info__empty">
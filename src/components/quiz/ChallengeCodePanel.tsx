@@ -0,0 +1,65 @@
+import { useState, type FormEvent } from 'react'
+
+type ChallengeCodePanelProps = {
+  codigo?: string
+  onSubmit: (codigo: string) => boolean
+}
+
+export const ChallengeCodePanel = ({ codigo, onSubmit }: ChallengeCodePanelProps) => {
+  const [texto, setTexto] = useState('')
+  const [error, setError] = useState(false)
+  const [copiado, setCopiado] = useState(false)
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!texto.trim()) return
+    const valido = onSubmit(texto)
+    setError(!valido)
+    if (valido) setTexto('')
+  }
+
+  const handleCopy = async () => {
+    if (!codigo) return
+    try {
+      await navigator.clipboard.writeText(codigo)
+      setCopiado(true)
+      setTimeout(() => setCopiado(false), 1500)
+    } catch (copyError) {
+      console.warn('No se pudo copiar el código del reto', copyError)
+    }
+  }
+
+  return (
+    <div className="challenge-code">
+      <span className="difficulty-switch__label">Código de reto</span>
+      {codigo ? (
+        <div className="challenge-code__current">
+          <code>{codigo}</code>
+          <button type="button" className="ghost-button ghost-button--dense" onClick={handleCopy}>
+            {copiado ? 'Copiado' : 'Copiar'}
+          </button>
+        </div>
+      ) : null}
+      <form className="challenge-code__form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="quiz-hud__answer-input"
+          value={texto}
+          onChange={(event) => {
+            setTexto(event.target.value)
+            setError(false)
+          }}
+          placeholder="R1-…"
+          aria-label="Código de reto"
+          aria-invalid={error}
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <button type="submit" className="ghost-button ghost-button--dense">
+          Jugar
+        </button>
+      </form>
+      {error ? <p className="challenge-code__error">Código no válido</p> : null}
+    </div>
+  )
+}
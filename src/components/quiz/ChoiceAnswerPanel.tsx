@@ -0,0 +1,23 @@
+import type { MunicipioId } from '../../types/municipio'
+
+type ChoiceAnswerPanelProps = {
+  opciones: { id: MunicipioId; nombre: string }[]
+  disabled?: boolean
+  onChoose: (municipioId: MunicipioId) => void
+}
+
+export const ChoiceAnswerPanel = ({ opciones, disabled = false, onChoose }: ChoiceAnswerPanelProps) => (
+  <div className="quiz-hud__choices" role="group" aria-label="Opciones de respuesta">
+    {opciones.map((opcion) => (
+      <button
+        key={opcion.id}
+        type="button"
+        className="ghost-button ghost-button--dense quiz-hud__choice"
+        disabled={disabled}
+        onClick={() => onChoose(opcion.id)}
+      >
+        {opcion.nombre}
+      </button>
+    ))}
+  </div>
+)
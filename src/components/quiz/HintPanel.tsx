@@ -0,0 +1,62 @@
+import {
+  municipioNeighbors,
+  provinceById,
+  spanishMunicipiosById
+} from '../../data/spainDivisions'
+import { NIVELES_PISTA } from '../../store/gameStore'
+import type { MunicipioId } from '../../types/municipio'
+
+type HintPanelProps = {
+  municipioId: MunicipioId
+  nivel: number
+  penalizaciones: number[]
+  disabled?: boolean
+  onRequest: () => void
+}
+
+const describirPista = (municipioId: MunicipioId, nivel: number) => {
+  const municipio = spanishMunicipiosById.get(municipioId)
+  if (nivel === 1) {
+    const provincia = municipio ? provinceById.get(municipio.provincia)?.nombre : undefined
+    return `Está en la provincia de ${provincia ?? municipio?.provincia ?? '—'}.`
+  }
+  if (nivel === 2) {
+    const vecinos = (municipioNeighbors.get(municipioId) ?? [])
+      .map((id) => spanishMunicipiosById.get(id)?.nombre)
+      .filter((nombre): nombre is string => Boolean(nombre))
+    return vecinos.length
+      ? `Limita con ${vecinos.join(', ')}.`
+      : 'No tiene municipios vecinos: busca una isla o un enclave.'
+  }
+  return 'El mapa se ha acercado a la zona.'
+}
+
+export const HintPanel = ({
+  municipioId,
+  nivel,
+  penalizaciones,
+  disabled = false,
+  onRequest
+}: HintPanelProps) => {
+  const siguiente = nivel + 1
+  return (
+    <div className="quiz-hint">
+      {Array.from({ length: nivel }, (_, index) => (
+        <p key={index} className="quiz-hint__text">
+          {describirPista(municipioId, index + 1)}
+        </p>
+      ))}
+      {nivel < NIVELES_PISTA ? (
+        <button
+          type="button"
+          className="ghost-button ghost-button--dense"
+          onClick={onRequest}
+          disabled={disabled}
+        >
+          Pista {siguiente}/{NIVELES_PISTA}
+          {penalizaciones[nivel] ? ` (−${penalizaciones[nivel]} %)` : ''}
+        </button>
+      ) : null}
+    </div>
+  )
+}
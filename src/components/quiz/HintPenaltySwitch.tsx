@@ -0,0 +1,37 @@
+import clsx from 'clsx'
+
+type HintPenaltySwitchProps = {
+  value: number[]
+  onChange: (penalizaciones: number[]) => void
+}
+
+const OPTIONS: { label: string; penalizaciones: number[] }[] = [
+  { label: 'Sin coste', penalizaciones: [0, 0, 0] },
+  { label: 'Suave', penalizaciones: [5, 10, 15] },
+  { label: 'Normal', penalizaciones: [10, 20, 30] },
+  { label: 'Dura', penalizaciones: [20, 30, 40] }
+]
+
+const igual = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((valor, index) => valor === b[index])
+
+export const HintPenaltySwitch = ({ value, onChange }: HintPenaltySwitchProps) => (
+  <div className="difficulty-switch">
+    <span className="difficulty-switch__label">Coste de las pistas</span>
+    <div className="difficulty-switch__buttons">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          className={clsx('difficulty-switch__btn', {
+            'difficulty-switch__btn--active': igual(value, option.penalizaciones)
+          })}
+          title={option.penalizaciones.map((valor) => `${valor} %`).join(' · ')}
+          onClick={() => onChange(option.penalizaciones)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+)
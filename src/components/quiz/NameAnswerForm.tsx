@@ -0,0 +1,36 @@
+import { useState, type FormEvent } from 'react'
+
+type NameAnswerFormProps = {
+  disabled?: boolean
+  onSubmit: (texto: string) => void
+}
+
+export const NameAnswerForm = ({ disabled = false, onSubmit }: NameAnswerFormProps) => {
+  const [texto, setTexto] = useState('')
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!texto.trim() || disabled) return
+    onSubmit(texto)
+    setTexto('')
+  }
+
+  return (
+    <form className="quiz-hud__answer-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className="quiz-hud__answer-input"
+        value={texto}
+        onChange={(event) => setTexto(event.target.value)}
+        placeholder="Escribe el nombre del municipio"
+        aria-label="Nombre del municipio resaltado"
+        autoComplete="off"
+        autoFocus
+        disabled={disabled}
+      />
+      <button type="submit" className="ghost-button ghost-button--dense" disabled={disabled}>
+        Responder
+      </button>
+    </form>
+  )
+}
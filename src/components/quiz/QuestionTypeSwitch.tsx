@@ -0,0 +1,46 @@
+import clsx from 'clsx'
+import { entidadById } from '../../data/entidadesMetadata'
+import type { TipoPregunta } from '../../store/gameStore'
+
+type QuestionTypeSwitchProps = {
+  value: TipoPregunta
+  onChange: (tipo: TipoPregunta) => void
+}
+
+const OPTIONS: { value: TipoPregunta; label: string }[] = [
+  { value: 'localizar', label: 'Localizar' },
+  { value: 'nombrar', label: 'Nombrar' },
+  { value: 'opciones', label: 'Opciones' },
+  { value: 'capital', label: 'Capitales' },
+  { value: 'entidad', label: 'Entidades' },
+  { value: 'localidad', label: 'Localidades' }
+]
+
+// Sin ENTIDADES.csv no hay puntos de localidades sobre los que preguntar
+const hayLocalidades = entidadById.size > 0
+
+export const QuestionTypeSwitch = ({ value, onChange }: QuestionTypeSwitchProps) => (
+  <div className="difficulty-switch">
+    <span className="difficulty-switch__label">Tipo de pregunta</span>
+    <div className="difficulty-switch__buttons">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          className={clsx('difficulty-switch__btn', {
+            'difficulty-switch__btn--active': value === option.value
+          })}
+          onClick={() => onChange(option.value)}
+          disabled={option.value === 'localidad' && !hayLocalidades}
+          title={
+            option.value === 'localidad' && !hayLocalidades
+              ? 'No hay datos de entidades de población'
+              : undefined
+          }
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+)
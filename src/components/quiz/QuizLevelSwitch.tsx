@@ -0,0 +1,33 @@
+import clsx from 'clsx'
+import type { NivelGeografico } from '../../types/municipio'
+
+type QuizLevelSwitchProps = {
+  value: NivelGeografico
+  onChange: (nivel: NivelGeografico) => void
+}
+
+const OPTIONS: { value: NivelGeografico; label: string }[] = [
+  { value: 'comunidad', label: 'Comunidades' },
+  { value: 'provincia', label: 'Provincias' },
+  { value: 'municipio', label: 'Municipios' }
+]
+
+export const QuizLevelSwitch = ({ value, onChange }: QuizLevelSwitchProps) => (
+  <div className="difficulty-switch">
+    <span className="difficulty-switch__label">Preguntar por</span>
+    <div className="difficulty-switch__buttons">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          className={clsx('difficulty-switch__btn', {
+            'difficulty-switch__btn--active': value === option.value
+          })}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+)
@@ -0,0 +1,91 @@
+import clsx from 'clsx'
+import { divisionInfoById } from '../../data/spainDivisions'
+import type { QuizQuestion } from '../../store/gameStore'
+import type { NivelGeografico } from '../../types/municipio'
+
+type QuizReviewPanelProps = {
+  preguntas: QuizQuestion[]
+  nivel: NivelGeografico
+  index: number
+  onChangeIndex: (index: number) => void
+  onClose: () => void
+  onRetryFailed: () => void
+}
+
+const formatNumber = (value: number) => value.toLocaleString('es-ES')
+
+const describirRespuesta = (pregunta: QuizQuestion, nivel: NivelGeografico) => {
+  if (pregunta.estado === 'correcta') return 'Correcta'
+  if (pregunta.estado === 'pendiente') return 'Sin responder'
+  if (pregunta.respuestaTexto !== undefined) return `Escribiste «${pregunta.respuestaTexto}»`
+  if (pregunta.respuestaEntidad) return `Marcaste ${pregunta.respuestaEntidad}`
+  if (!pregunta.respuesta) return 'Sin respuesta a tiempo'
+  const nombre = divisionInfoById[nivel].get(pregunta.respuesta)?.nombre ?? pregunta.respuesta
+  return `Marcaste ${nombre}`
+}
+
+export const QuizReviewPanel = ({
+  preguntas,
+  nivel,
+  index,
+  onChangeIndex,
+  onClose,
+  onRetryFailed
+}: QuizReviewPanelProps) => {
+  const pregunta = preguntas[index]
+  if (!pregunta) return null
+  const fallidas = preguntas.filter((item) => item.estado === 'fallida').length
+
+  return (
+    <div className="quiz-review">
+      <div className="quiz-hud__question-text">
+        {index + 1}/{preguntas.length} ·{' '}
+        {pregunta.enunciado ? `${pregunta.enunciado} ${pregunta.nombre}` : pregunta.nombre}
+      </div>
+      <p className={clsx('quiz-review__result', `quiz-review__result--${pregunta.estado}`)}>
+        {describirRespuesta(pregunta, nivel)}
+        {typeof pregunta.distanciaKm === 'number' && pregunta.distanciaKm > 0
+          ? ` · a ${formatNumber(Math.round(pregunta.distanciaKm))} km`
+          : ''}
+        {typeof pregunta.tiempoMs === 'number'
+          ? ` · ${formatNumber(Math.round(pregunta.tiempoMs / 100) / 10)} s`
+          : ''}
+        {pregunta.pistas
+          ? ` · ${pregunta.pistas} ${pregunta.pistas === 1 ? 'pista' : 'pistas'}`
+          : ''}
+        {` · ${formatNumber(pregunta.puntos ?? 0)} puntos`}
+      </p>
+      <div className="quiz-review__nav">
+        <button
+          type="button"
+          className="ghost-button ghost-button--dense"
+          onClick={() => onChangeIndex(index - 1)}
+          disabled={index === 0}
+        >
+          ← Anterior
+        </button>
+        <button
+          type="button"
+          className="ghost-button ghost-button--dense"
+          onClick={() => onChangeIndex(index + 1)}
+          disabled={index === preguntas.length - 1}
+        >
+          Siguiente →
+        </button>
+      </div>
+      <div className="quiz-review__nav">
+        <button
+          type="button"
+          className="ghost-button ghost-button--dense"
+          onClick={onRetryFailed}
+          disabled={fallidas === 0}
+        >
+          Repetir fallos ({fallidas})
+        </button>
+        <button type="button" className="ghost-button ghost-button--dense" onClick={onClose}>
+          Terminar revisión
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import clsx from 'clsx'
+import type { AjustesTiempo, ModoTiempo } from '../../store/gameStore'
+
+type TimingModeSwitchProps = {
+  value: AjustesTiempo
+  onChange: (ajustes: Partial<AjustesTiempo>) => void
+}
+
+const OPTIONS: { value: ModoTiempo; label: string }[] = [
+  { value: 'por-pregunta', label: 'Por pregunta' },
+  { value: 'cuenta-atras', label: 'Cuenta atrás' },
+  { value: 'sin-limite', label: 'Sin límite' },
+  { value: 'muerte-subita', label: 'Muerte súbita' }
+]
+
+const LIMITES_PREGUNTA = [10, 20, 30, 60]
+const LIMITES_PARTIDA = [60, 120, 180, 300]
+
+const formatLimite = (segundos: number) =>
+  segundos >= 60 && segundos % 60 === 0 ? `${segundos / 60} min` : `${segundos} s`
+
+const HINTS: Record<ModoTiempo, string> = {
+  'por-pregunta': 'Cada pregunta tiene su propio límite de tiempo.',
+  'cuenta-atras': '¿Cuántos aciertas antes de que se acabe el tiempo?',
+  'sin-limite': 'Sin reloj: la rapidez solo suma puntos.',
+  'muerte-subita': 'El primer fallo, o agotar el tiempo de una pregunta, termina la partida.'
+}
+
+export const TimingModeSwitch = ({ value, onChange }: TimingModeSwitchProps) => {
+  const limitePorPregunta = value.modo === 'por-pregunta' || value.modo === 'muerte-subita'
+  const limites = limitePorPregunta ? LIMITES_PREGUNTA : LIMITES_PARTIDA
+  const limiteActual = limitePorPregunta ? value.limitePregunta : value.limitePartida
+
+  return (
+    <div className="difficulty-switch">
+      <span className="difficulty-switch__label">Tiempo</span>
+      <div className="difficulty-switch__buttons">
+        {OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={clsx('difficulty-switch__btn', {
+              'difficulty-switch__btn--active': value.modo === option.value
+            })}
+            onClick={() => onChange({ modo: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value.modo !== 'sin-limite' ? (
+        <div className="difficulty-switch__buttons">
+          {limites.map((limite) => (
+            <button
+              key={limite}
+              type="button"
+              className={clsx('difficulty-switch__btn', {
+                'difficulty-switch__btn--active': limiteActual === limite
+              })}
+              onClick={() =>
+                onChange(limitePorPregunta ? { limitePregunta: limite } : { limitePartida: limite })
+              }
+            >
+              {formatLimite(limite)}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      <span className="timing-switch__hint">{HINTS[value.modo]}</span>
+    </div>
+  )
+}
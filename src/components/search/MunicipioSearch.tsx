@@ -0,0 +1,109 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react'
+import clsx from 'clsx'
+import type { MunicipioId, MunicipioInfo, ProvinciaId } from '../../types/municipio'
+import { provincias as provinciaSummaries, spanishMunicipiosById } from '../../data/spainDivisions'
+import { buscarEnIndice, crearIndiceBusqueda, type TipoCoincidencia } from '../../utils/searchIndex'
+
+type MunicipioSearchProps = {
+  municipios: MunicipioInfo[]
+  onSelect: (municipioId: MunicipioId) => void
+}
+
+const provinciaNombreById = new Map<ProvinciaId, string>(
+  provinciaSummaries.map((provincia) => [provincia.id, provincia.nombre])
+)
+
+const ETIQUETA_TIPO: Record<TipoCoincidencia, string> = {
+  municipio: '',
+  capital: 'capital de',
+  entidad: 'en'
+}
+
+export const MunicipioSearch = ({ municipios, onSelect }: MunicipioSearchProps) => {
+  const [consulta, setConsulta] = useState('')
+  const [activo, setActivo] = useState(0)
+  const listId = useId()
+
+  const indice = useMemo(() => crearIndiceBusqueda(municipios), [municipios])
+  const resultados = useMemo(() => buscarEnIndice(indice, consulta), [indice, consulta])
+
+  const elegir = (municipioId: MunicipioId) => {
+    onSelect(municipioId)
+    setConsulta('')
+    setActivo(0)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' && resultados.length) {
+      event.preventDefault()
+      setActivo((index) => (index + 1) % resultados.length)
+    } else if (event.key === 'ArrowUp' && resultados.length) {
+      event.preventDefault()
+      setActivo((index) => (index - 1 + resultados.length) % resultados.length)
+    } else if (event.key === 'Enter' && resultados[activo]) {
+      event.preventDefault()
+      elegir(resultados[activo].municipioId)
+    } else if (event.key === 'Escape') {
+      setConsulta('')
+      setActivo(0)
+    }
+  }
+
+  return (
+    <div className="municipio-search">
+      <input
+        type="search"
+        className="municipio-search__input"
+        value={consulta}
+        onChange={(event) => {
+          setConsulta(event.target.value)
+          setActivo(0)
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Buscar municipio, capital o entidad"
+        aria-label="Buscar municipio"
+        aria-controls={listId}
+        aria-activedescendant={resultados[activo] ? `${listId}-${activo}` : undefined}
+        autoComplete="off"
+      />
+      {consulta.trim() ? (
+        <ul id={listId} className="municipio-search__results" role="listbox">
+          {resultados.length ? (
+            resultados.map((resultado, index) => {
+              const municipio = spanishMunicipiosById.get(resultado.municipioId)
+              const provincia = municipio
+                ? provinciaNombreById.get(municipio.provincia) ?? municipio.provincia
+                : ''
+              const detalle =
+                resultado.tipo === 'municipio'
+                  ? provincia
+                  : `${ETIQUETA_TIPO[resultado.tipo]} ${municipio?.nombre ?? ''} · ${provincia}`
+              return (
+                <li
+                  key={resultado.municipioId}
+                  id={`${listId}-${index}`}
+                  role="option"
+                  aria-selected={index === activo}
+                >
+                  <button
+                    type="button"
+                    className={clsx('municipio-search__result', {
+                      'municipio-search__result--active': index === activo
+                    })}
+                    onMouseEnter={() => setActivo(index)}
+                    onClick={() => elegir(resultado.municipioId)}
+                  >
+                    <span>{resultado.texto}</span>
+                    <small>{detalle}</small>
+                  </button>
+                </li>
+              )
+            })
+          ) : (
+            <li className="municipio-search__empty">Sin resultados</li>
+          )}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
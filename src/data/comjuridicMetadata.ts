@@ -0,0 +1,15 @@
+import comjuridicMeta from './comjuridic.json' with { type: 'json' }
+
+// Registro de comjuridic.json, generado desde COMJURIDIC.csv (Latin-1) por scripts/build-data.mjs
+export type ComunidadJuridicaCsvRecord = {
+  ID: string
+  NOMBRE_ACTUAL: string
+  PROVINCIA: string
+  MUNICIPIOS: string[]
+  INE_MUNICIPIOS: string[]
+  SUPERFICIE?: number
+  LONGITUD_ETRS89?: number
+  LATITUD_ETRS89?: number
+}
+
+export const comunidadesJuridicas = comjuridicMeta as ComunidadJuridicaCsvRecord[]
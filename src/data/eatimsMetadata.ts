@@ -0,0 +1,43 @@
+import eatimsMeta from './eatims.json' with { type: 'json' }
+import type { EntidadInfo } from '../types/municipio'
+
+// Registro de eatims.json, generado desde EATIMS.csv (Latin-1) por scripts/build-data.mjs
+type EatimCsvRecord = {
+  CODINE: string
+  INEMUNICIPIO: string
+  COD_PROV: string
+  DENOMINACION: string
+  LONGITUD_ETRS89?: number
+  LATITUD_ETRS89?: number
+  ALTITUD?: number
+}
+
+export const TIPO_EATIM = 'Entidad local menor'
+
+const eatimRecords = eatimsMeta as EatimCsvRecord[]
+
+/**
+ * EATIMs agrupadas por el código INE de cinco dígitos de su municipio, que coincide con el
+ * comienzo del COD_INE de municipios.json.
+ */
+export const eatimsPorMunicipio = new Map<string, EntidadInfo[]>()
+
+for (const record of eatimRecords) {
+  const eatim: EntidadInfo = {
+    id: record.CODINE,
+    nombre: record.DENOMINACION,
+    tipo: TIPO_EATIM,
+    altitud: record.ALTITUD,
+    coordenadas:
+      typeof record.LATITUD_ETRS89 === 'number' && typeof record.LONGITUD_ETRS89 === 'number'
+        ? { lat: record.LATITUD_ETRS89, lon: record.LONGITUD_ETRS89 }
+        : undefined
+  }
+
+  const existing = eatimsPorMunicipio.get(record.INEMUNICIPIO)
+  if (existing) {
+    existing.push(eatim)
+  } else {
+    eatimsPorMunicipio.set(record.INEMUNICIPIO, [eatim])
+  }
+}
@@ -1,92 +1,46 @@
-import rawCsv from './BD_Municipios-Entidades/ENTIDADES_utf8.csv?raw'
-import type { EntidadInfo, ProvinciaId } from '../types/municipio'
+import entidadesMeta from './entidades.json' with { type: 'json' }
+import type { EntidadInfo } from '../types/municipio'
 
-const provinciasCLM = new Map<string, ProvinciaId>([
-  ['Albacete', 'albacete'],
-  ['Ciudad Real', 'ciudad-real'],
-  ['Cuenca', 'cuenca'],
-  ['Guadalajara', 'guadalajara'],
-  ['Toledo', 'toledo']
-])
-
-type CsvRow = {
+// Registro de entidades.json, generado desde ENTIDADES.csv (Latin-1) por scripts/build-data.mjs
+type EntidadCsvRecord = {
   CODIGOINE: string
+  INEMUNICIPIO: string
   NOMBRE: string
-  PROVINCIA: string
   TIPO: string
-  POBLACION: string
-  INEMUNI: string
-  LONGITUD_ETRS89: string
-  LATITUD_ETRS89: string
-  ALTITUD: string
-}
-
-const parseFloatEs = (value?: string) => {
-  if (!value) return undefined
-  const normalized = value.replace(/\./g, '').replace(',', '.')
-  const num = Number.parseFloat(normalized)
-  return Number.isNaN(num) ? undefined : num
+  POBLACION?: number
+  LONGITUD_ETRS89?: number
+  LATITUD_ETRS89?: number
+  ALTITUD?: number
 }
 
-const parseIntSafe = (value?: string) => {
-  if (!value) return undefined
-  const num = Number.parseInt(value, 10)
-  return Number.isNaN(num) ? undefined : num
-}
-
-const csvLines = rawCsv.trim().split(/\r?\n/)
-const headerLine = csvLines.shift()
-
-if (!headerLine) throw new Error('ENTIDADES_utf8.csv no contiene cabecera')
-
-const headers = headerLine.split(';')
-const indexOf = (name: keyof CsvRow) => headers.indexOf(name)
-
-export type EntidadesPorMunicipio = Map<
-  string,
-  {
-    entidades: EntidadInfo[]
-  }
->
-
-export const entidadesPorMunicipio: EntidadesPorMunicipio = new Map()
-
-for (const line of csvLines) {
-  if (!line.trim()) continue
-  const values = line.split(';')
-  if (values.length !== headers.length) continue
-
-  const provinciaNombre = values[indexOf('PROVINCIA')]
-  const provinciaId = provinciasCLM.get(provinciaNombre)
-  if (!provinciaId) continue
+const entidadRecords = entidadesMeta as EntidadCsvRecord[]
 
-  const codigoIne = values[indexOf('CODIGOINE')]
-  if (!codigoIne) continue
-  const key = `${codigoIne.slice(0, 5)}000000`.slice(0, 11)
+/**
+ * Entidades singulares de población agrupadas por el código INE de cinco dígitos de su
+ * municipio, como `eatimsPorMunicipio`. Vacío si entidades.json se generó sin ENTIDADES.csv.
+ */
+export const entidadesPorMunicipio = new Map<string, EntidadInfo[]>()
 
-  const nombre = values[indexOf('NOMBRE')]
-  const tipo = values[indexOf('TIPO')]
-  const poblacion = parseIntSafe(values[indexOf('POBLACION')])
-  const altitud = parseIntSafe(values[indexOf('ALTITUD')])
-  const longitud = parseFloatEs(values[indexOf('LONGITUD_ETRS89')])
-  const latitud = parseFloatEs(values[indexOf('LATITUD_ETRS89')])
+export const entidadById = new Map<string, EntidadInfo>()
 
+for (const record of entidadRecords) {
   const entidad: EntidadInfo = {
-    id: codigoIne,
-    nombre,
-    tipo,
-    poblacion,
-    altitud,
+    id: record.CODIGOINE,
+    nombre: record.NOMBRE,
+    tipo: record.TIPO,
+    poblacion: record.POBLACION,
+    altitud: record.ALTITUD,
     coordenadas:
-      typeof latitud === 'number' && typeof longitud === 'number'
-        ? { lat: latitud, lon: longitud }
+      typeof record.LATITUD_ETRS89 === 'number' && typeof record.LONGITUD_ETRS89 === 'number'
+        ? { lat: record.LATITUD_ETRS89, lon: record.LONGITUD_ETRS89 }
         : undefined
   }
 
-  const existing = entidadesPorMunicipio.get(key)
+  entidadById.set(entidad.id, entidad)
+  const existing = entidadesPorMunicipio.get(record.INEMUNICIPIO)
   if (existing) {
-    existing.entidades.push(entidad)
+    existing.push(entidad)
   } else {
-    entidadesPorMunicipio.set(key, { entidades: [entidad] })
+    entidadesPorMunicipio.set(record.INEMUNICIPIO, [entidad])
   }
 }
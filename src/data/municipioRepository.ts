@@ -0,0 +1,159 @@
+import municipiosMeta from './municipios.json' with { type: 'json' }
+import { eatimsPorMunicipio } from './eatimsMetadata'
+import { entidadesPorMunicipio } from './entidadesMetadata'
+import type {
+  ComunidadId,
+  Coordenadas,
+  EntidadInfo,
+  MunicipioId,
+  MunicipioInfo,
+  ProvinciaId
+} from '../types/municipio'
+import { slugify } from '../utils/slug'
+
+// Registro de municipios.json, generado desde MUNICIPIOS.csv (Latin-1) por scripts/build-data.mjs
+type MunicipioCsvRecord = {
+  COD_INE: string
+  COD_PROV: string
+  PROVINCIA: string
+  NOMBRE_ACTUAL: string
+  POBLACION_MUNI?: number
+  SUPERFICIE?: number
+  COD_INE_CAPITAL?: string
+  CAPITAL?: string
+  POBLACION_CAPITAL?: number
+  LONGITUD_ETRS89?: number
+  LATITUD_ETRS89?: number
+  ALTITUD?: number
+}
+
+/**
+ * Datos de un municipio que no dependen de la cartografía: el id, la provincia y la comunidad
+ * los pone la vista que lo asocia a un recinto (`crearMunicipioInfo`).
+ */
+export type MunicipioRegistro = {
+  // Código INE de cinco dígitos (provincia + municipio)
+  ine: string
+  codProv: string
+  nombre: string
+  poblacion?: number
+  superficieKm2?: number
+  densidadHabKm2?: number
+  altitud?: number
+  coordenadas?: Coordenadas
+  capital?: EntidadInfo
+  entidades?: EntidadInfo[]
+  eatims?: EntidadInfo[]
+}
+
+const aCoordenadas = (lat?: number, lon?: number): Coordenadas | undefined =>
+  typeof lat === 'number' && typeof lon === 'number' ? { lat, lon } : undefined
+
+const aRegistro = (record: MunicipioCsvRecord): MunicipioRegistro => {
+  const ine = record.COD_INE.slice(0, 5)
+  const coordenadas = aCoordenadas(record.LATITUD_ETRS89, record.LONGITUD_ETRS89)
+  // SUPERFICIE viene en hectáreas
+  const superficieKm2 = typeof record.SUPERFICIE === 'number' ? record.SUPERFICIE / 100 : undefined
+  const densidadHabKm2 =
+    typeof record.POBLACION_MUNI === 'number' && typeof superficieKm2 === 'number' && superficieKm2 > 0
+      ? record.POBLACION_MUNI / superficieKm2
+      : undefined
+
+  return {
+    ine,
+    codProv: record.COD_PROV.padStart(2, '0'),
+    nombre: record.NOMBRE_ACTUAL,
+    poblacion: record.POBLACION_MUNI,
+    superficieKm2,
+    densidadHabKm2,
+    altitud: record.ALTITUD,
+    coordenadas,
+    // La capital solo se muestra cuando no se llama como el municipio
+    capital:
+      record.CAPITAL && record.CAPITAL !== record.NOMBRE_ACTUAL
+        ? {
+            id: record.COD_INE_CAPITAL ?? '',
+            nombre: record.CAPITAL,
+            tipo: 'capital',
+            poblacion: record.POBLACION_CAPITAL,
+            altitud: record.ALTITUD,
+            coordenadas
+          }
+        : undefined,
+    entidades: entidadesPorMunicipio.get(ine),
+    eatims: eatimsPorMunicipio.get(ine)
+  }
+}
+
+export const municipioRegistros: MunicipioRegistro[] = (municipiosMeta as MunicipioCsvRecord[]).map(
+  aRegistro
+)
+
+export const municipioPorIne = new Map<string, MunicipioRegistro>(
+  municipioRegistros.map((registro) => [registro.ine, registro])
+)
+
+const registrosPorNombre = new Map<string, MunicipioRegistro[]>()
+for (const registro of municipioRegistros) {
+  const clave = slugify(registro.nombre)
+  const existing = registrosPorNombre.get(clave)
+  if (existing) {
+    existing.push(registro)
+  } else {
+    registrosPorNombre.set(clave, [registro])
+  }
+}
+
+/**
+ * Código INE de cinco dígitos de un recinto del IGN. El NATCODE es "34" + comunidad (2) +
+ * provincia (2) + municipio (5); en los condominios esos cinco dígitos empiezan por 53.
+ */
+export const ineDeNatcode = (natcode: string | undefined) =>
+  natcode && /^34\d{9}$/.test(natcode) ? natcode.slice(6, 11) : undefined
+
+export type AsociacionMunicipio = {
+  registro?: MunicipioRegistro
+  // Cómo se encontró el registro; sin registro, 'ambiguo' si el nombre casa con varios
+  metodo: 'ine' | 'nombre' | 'ambiguo' | 'sin-coincidencia'
+  candidatos: MunicipioRegistro[]
+}
+
+/**
+ * Asocia un recinto a su municipio por código INE. El nombre solo se usa si el código no
+ * existe en municipios.json, y entonces `admite` descarta los homónimos que no encajan (de
+ * otra provincia o comunidad). Si aun así quedan varios, no se elige ninguno.
+ */
+export const asociarMunicipio = ({
+  ine,
+  nombre,
+  admite = () => true
+}: {
+  ine?: string
+  nombre: string
+  admite?: (registro: MunicipioRegistro) => boolean
+}): AsociacionMunicipio => {
+  const porIne = ine ? municipioPorIne.get(ine) : undefined
+  if (porIne && admite(porIne)) return { registro: porIne, metodo: 'ine', candidatos: [porIne] }
+
+  const candidatos = (registrosPorNombre.get(slugify(nombre)) ?? []).filter(admite)
+  if (candidatos.length === 1) return { registro: candidatos[0], metodo: 'nombre', candidatos }
+  return { metodo: candidatos.length ? 'ambiguo' : 'sin-coincidencia', candidatos }
+}
+
+export const crearMunicipioInfo = (
+  registro: MunicipioRegistro,
+  recinto: { id: MunicipioId; provincia: ProvinciaId; comunidad: ComunidadId }
+): MunicipioInfo => ({
+  id: recinto.id,
+  nombre: registro.nombre,
+  provincia: recinto.provincia,
+  comunidad: recinto.comunidad,
+  poblacion: registro.poblacion,
+  superficieKm2: registro.superficieKm2,
+  densidadHabKm2: registro.densidadHabKm2,
+  altitud: registro.altitud,
+  coordenadas: registro.coordenadas,
+  capital: registro.capital,
+  entidades: registro.entidades,
+  eatims: registro.eatims
+})
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { geoBounds, geoContains } from 'd3-geo'
+import provinciasMeta from './provincias.json' with { type: 'json' }
+
+type SpainDivisions = typeof import('./spainDivisions')
+type MunicipioRepository = typeof import('./municipioRepository')
+type ClmMunicipios = typeof import('./clmMunicipios')
+
+// El módulo avisa por consola mientras se evalúa: se importa con el espía ya puesto
+const warn = vi.spyOn(console, 'warn')
+vi.spyOn(console, 'info').mockImplementation(() => {})
+
+let divisiones: SpainDivisions
+let repositorio: MunicipioRepository
+let clm: ClmMunicipios
+
+beforeAll(async () => {
+  divisiones = await import('./spainDivisions')
+  repositorio = await import('./municipioRepository')
+  clm = await import('./clmMunicipios')
+})
+
+afterAll(() => {
+  vi.restoreAllMocks()
+})
+
+// Cáceres, el término más extenso, tiene unos 1.750 km²; Madrid, unos 3,4 millones de habitantes
+const SUPERFICIE_MAXIMA_KM2 = 2000
+const POBLACION_MAXIMA = 4_000_000
+// Margen del encuadre para los términos pequeños que la simplificación deforma (~2,5 km)
+const MARGEN_ENCUADRE_GRADOS = 0.025
+
+// Anomalías conocidas de las fuentes, por código INE
+const SIN_SUPERFICIE = new Set([
+  '48916' // Usansolo: segregado de Galdakao en 2022, el NGMEP aún no trae su superficie
+])
+const COORDENADAS_FUERA_DEL_TERMINO = new Set([
+  '46114' // Domeño: las coordenadas son del núcleo trasladado por el embalse de Loriguilla
+])
+// Provincias sin recintos: las capas del IGN que se procesan son las peninsulares y de Baleares
+const PROVINCIAS_SIN_CARTOGRAFIA = new Set([
+  '35', // Las Palmas
+  '38' // Santa Cruz de Tenerife
+])
+
+const ineDe = (id: string) => id.slice(6, 11)
+
+describe('spainDivisions', () => {
+  it('no avisa de geometrías que faltan', () => {
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('asocia todos los recintos municipales por código INE', () => {
+    const { informeAsociacion } = divisiones
+    expect(informeAsociacion.sinCoincidencia).toEqual([])
+    expect(informeAsociacion.ambiguos).toEqual([])
+    expect(informeAsociacion.porNombre).toBe(0)
+    expect(
+      informeAsociacion.porIne + informeAsociacion.condominios + informeAsociacion.noAdscritos
+    ).toBe(informeAsociacion.recintos)
+    expect(divisiones.spanishMunicipioFeatures).toHaveLength(informeAsociacion.porIne)
+  })
+
+  it('tiene geometría para cada provincia de provincias.json salvo las de Canarias', () => {
+    const conGeometria = new Set(divisiones.provincias.map((provincia) => provincia.codProv))
+    const sinGeometria = provinciasMeta
+      .map((provincia) => provincia.COD_PROV)
+      .filter((codProv) => !conGeometria.has(codProv))
+
+    expect(sinGeometria.sort()).toEqual([...PROVINCIAS_SIN_CARTOGRAFIA].sort())
+    expect(divisiones.spanishProvinciaFeatures).toHaveLength(divisiones.provincias.length)
+  })
+
+  it('da a cada recinto un id único con su ficha', () => {
+    for (const nivel of ['municipio', 'provincia', 'comunidad'] as const) {
+      const ids = divisiones.divisionFeatures[nivel].map((feature) => String(feature.id))
+      expect(new Set(ids).size, nivel).toBe(ids.length)
+      const sinFicha = ids.filter((id) => !divisiones.divisionInfoById[nivel].has(id))
+      expect(sinFicha, nivel).toEqual([])
+    }
+  })
+
+  it('asocia cada código INE a un solo recinto', () => {
+    const ines = divisiones.spanishMunicipioFeatures.map((feature) =>
+      repositorio.ineDeNatcode(String(feature.properties?.NATCODE))
+    )
+    expect(ines.every(Boolean)).toBe(true)
+    expect(new Set(ines).size).toBe(ines.length)
+  })
+
+  it('tiene poblaciones y superficies plausibles', () => {
+    const fueraDeRango = divisiones.spanishMunicipiosInfo.filter(
+      (info) =>
+        typeof info.poblacion !== 'number' ||
+        info.poblacion < 0 ||
+        info.poblacion > POBLACION_MAXIMA ||
+        (!SIN_SUPERFICIE.has(ineDe(info.id)) &&
+          (typeof info.superficieKm2 !== 'number' ||
+            info.superficieKm2 <= 0 ||
+            info.superficieKm2 > SUPERFICIE_MAXIMA_KM2))
+    )
+    expect(fueraDeRango.map((info) => info.nombre)).toEqual([])
+  })
+
+  it('sitúa las coordenadas de cada municipio dentro de su recinto o de su encuadre', () => {
+    const fuera = divisiones.spanishMunicipioFeatures.flatMap((feature) => {
+      const info = divisiones.spanishMunicipiosById.get(String(feature.id))
+      if (!info?.coordenadas) return [info?.nombre ?? String(feature.id)]
+      const punto: [number, number] = [info.coordenadas.lon, info.coordenadas.lat]
+      if (geoContains(feature, punto) || COORDENADAS_FUERA_DEL_TERMINO.has(ineDe(info.id))) {
+        return []
+      }
+      const [[oeste, sur], [este, norte]] = geoBounds(feature)
+      const margen = MARGEN_ENCUADRE_GRADOS
+      const enEncuadre =
+        punto[0] >= oeste - margen &&
+        punto[0] <= este + margen &&
+        punto[1] >= sur - margen &&
+        punto[1] <= norte + margen
+      return enEncuadre ? [] : [info.nombre]
+    })
+    expect(fuera).toEqual([])
+  })
+})
+
+describe('municipioRepository', () => {
+  it('indexa municipios.json por un código INE único de cinco dígitos', () => {
+    const { municipioRegistros, municipioPorIne } = repositorio
+    expect(municipioRegistros.every((registro) => /^\d{5}$/.test(registro.ine))).toBe(true)
+    expect(municipioPorIne.size).toBe(municipioRegistros.length)
+  })
+
+  it('tiene en el mapa todos los municipios de las provincias con cartografía', () => {
+    const enMapa = new Set(
+      divisiones.spanishMunicipioFeatures.map((feature) =>
+        repositorio.ineDeNatcode(String(feature.properties?.NATCODE))
+      )
+    )
+    const sinRecinto = repositorio.municipioRegistros.filter(
+      (registro) =>
+        !PROVINCIAS_SIN_CARTOGRAFIA.has(registro.codProv) && !enMapa.has(registro.ine)
+    )
+    expect(sinRecinto.map((registro) => registro.nombre)).toEqual([])
+  })
+
+  it('no elige ningún municipio cuando el nombre casa con varios', () => {
+    const homonimo = repositorio.municipioRegistros.find(
+      (registro) =>
+        repositorio.municipioRegistros.filter((otro) => otro.nombre === registro.nombre).length > 1
+    )
+    expect(homonimo).toBeDefined()
+    const asociacion = repositorio.asociarMunicipio({ nombre: homonimo?.nombre ?? '' })
+    expect(asociacion.metodo).toBe('ambiguo')
+    expect(asociacion.registro).toBeUndefined()
+  })
+})
+
+describe('clmMunicipios', () => {
+  it('es la vista nacional filtrada a los municipios de Castilla-La Mancha', () => {
+    const provinciasClm = new Set(['02', '13', '16', '19', '45'])
+    const esperados = repositorio.municipioRegistros.filter((registro) =>
+      provinciasClm.has(registro.codProv)
+    )
+    expect(clm.clmMunicipiosInfo).toHaveLength(esperados.length)
+    expect(clm.clmMunicipioFeatures).toHaveLength(esperados.length)
+    const ajenos = clm.clmMunicipiosInfo.filter(
+      (info) => divisiones.spanishMunicipiosById.get(info.id) !== info
+    )
+    expect(ajenos).toEqual([])
+  })
+})
@@ -2,12 +2,27 @@ import comunidadesTopo from './es_ccaa.topo.json' with { type: 'json' }
 import provinciasTopo from './es_provincias.topo.json' with { type: 'json' }
 import municipiosTopo from './es_municipios.topo.json' with { type: 'json' }
 import provinciasMeta from './provincias.json' with { type: 'json' }
-import municipiosMeta from './municipios.json' with { type: 'json' }
-import { feature } from 'topojson-client'
+import { feature, neighbors } from 'topojson-client'
+import {
+  asociarMunicipio,
+  crearMunicipioInfo,
+  ineDeNatcode,
+  type AsociacionMunicipio
+} from './municipioRepository'
+import { comunidadesJuridicas } from './comjuridicMetadata'
+import { geoContains } from 'd3-geo'
 import type { Feature, FeatureCollection, Geometry } from 'geojson'
-import type { Topology, Objects } from 'topojson-specification'
-import type { ComunidadId, MunicipioInfo, ProvinciaId } from '../types/municipio'
+import type { GeometryCollection, Topology, Objects } from 'topojson-specification'
+import type {
+  ComunidadId,
+  MunicipioId,
+  MunicipioInfo,
+  NivelGeografico,
+  ProvinciaId,
+  TerritorioCompartido
+} from '../types/municipio'
 import { slugify } from '../utils/slug'
+import { variantesNombre } from '../utils/nameMatching'
 
 type ComunidadFeatureProperties = {
   NAMEUNIT?: string
@@ -34,21 +49,6 @@ type ProvinciaCsvRecord = {
   CAPITAL: string
 }
 
-type MunicipioCsvRecord = {
-  COD_INE: string
-  COD_PROV: string
-  PROVINCIA: string
-  NOMBRE_ACTUAL: string
-  POBLACION_MUNI?: number
-  SUPERFICIE?: number
-  COD_INE_CAPITAL?: string
-  CAPITAL?: string
-  POBLACION_CAPITAL?: number
-  LONGITUD_ETRS89?: number
-  LATITUD_ETRS89?: number
-  ALTITUD?: number
-}
-
 export type ComunidadSummary = {
   id: ComunidadId
   nombre: string
@@ -64,6 +64,7 @@ export type ProvinciaSummary = {
   codNut2: string
   comunidadId: ComunidadId
   comunidadNombre: string
+  capital: string
 }
 
 const isFeatureCollection = <Props extends Record<string, unknown>>(
@@ -95,20 +96,22 @@ const toFeatureCollection = <Props extends Record<string, unknown>>(
   return geoResult
 }
 
-const comunidadFeatures = toFeatureCollection<ComunidadFeatureProperties>(
+const comunidadTopology =
   comunidadesTopo as unknown as TopologyWithProps<ComunidadFeatureProperties>
-)
 
-const provinciaFeatures = toFeatureCollection<ProvinciaFeatureProperties>(
+const comunidadFeatures = toFeatureCollection<ComunidadFeatureProperties>(comunidadTopology)
+
+const provinciaTopology =
   provinciasTopo as unknown as TopologyWithProps<ProvinciaFeatureProperties>
-)
 
-const municipioFeatures = toFeatureCollection<MunicipioFeatureProperties>(
+const provinciaFeatures = toFeatureCollection<ProvinciaFeatureProperties>(provinciaTopology)
+
+const municipioTopology =
   municipiosTopo as unknown as TopologyWithProps<MunicipioFeatureProperties>
-)
+
+const municipioFeatures = toFeatureCollection<MunicipioFeatureProperties>(municipioTopology)
 
 const provinciaRecords = provinciasMeta as ProvinciaCsvRecord[]
-const municipioRecords = municipiosMeta as MunicipioCsvRecord[]
 
 const comunidadFeatureBySlug = new Map(
   comunidadFeatures.features.map((feature) => {
@@ -126,6 +129,10 @@ const provinceFeatureBySlug = new Map(
 
 const toProvinciaId = (nombre: string) => slugify(nombre)
 
+// Las capas "peninbal" del IGN cubren la Península, Baleares, Ceuta y Melilla: Canarias se
+// publica aparte y sus provincias se omiten sin aviso
+export const provinciasSinCartografia = new Set(['35', '38'])
+
 const comunidadSummariesMap = new Map<ComunidadId, ComunidadSummary>()
 
 const provinceSummaries: ProvinciaSummary[] = []
@@ -137,7 +144,9 @@ for (const record of provinciaRecords) {
   const feature = provinceFeatureBySlug.get(provinciaSlug)
 
   if (!feature) {
-    console.warn(`No se encontró geometría para la provincia ${provinciaNombre}. Se omite.`)
+    if (!provinciasSinCartografia.has(record.COD_PROV.padStart(2, '0'))) {
+      console.warn(`No se encontró geometría para la provincia ${provinciaNombre}. Se omite.`)
+    }
     continue
   }
 
@@ -156,6 +165,7 @@ for (const record of provinciaRecords) {
   const codNut2 = feature.properties?.CODNUT2 ?? comunidadFeature.properties?.CODNUT2 ?? ''
 
   if (!comunidadSummariesMap.has(comunidadId)) {
+    comunidadFeature.id = comunidadId
     comunidadSummariesMap.set(comunidadId, {
       id: comunidadId,
       nombre: comunidadNombre,
@@ -171,9 +181,11 @@ for (const record of provinciaRecords) {
     codCa: record.COD_CA,
     codNut2,
     comunidadId,
-    comunidadNombre
+    comunidadNombre,
+    capital: record.CAPITAL
   }
 
+  feature.id = provinciaSlug
   provinceSummaries.push(summary)
   provinceByCod.set(record.COD_PROV.padStart(2, '0'), summary)
 }
@@ -193,59 +205,48 @@ const provinceIdsByCommunity = new Map<ComunidadId, ProvinciaId[]>(
   ])
 )
 
-type EnrichedMunicipioRecord = MunicipioCsvRecord & {
-  provinciaId?: ProvinciaId
-  comunidadId?: ComunidadId
-}
-
-const municipioRecordsWithIds: EnrichedMunicipioRecord[] = municipioRecords.map((record) => {
-  const provincia = provinceByCod.get(record.COD_PROV.padStart(2, '0'))
-
-  return {
-    ...record,
-    provinciaId: provincia?.id,
-    comunidadId: provincia?.comunidadId
-  }
-})
-
-const metadataByProvinceAndName = new Map<string, EnrichedMunicipioRecord>()
-const metadataByName = new Map<string, EnrichedMunicipioRecord[]>()
-
-const buildMunicipioKey = (provinciaId: ProvinciaId | undefined, nombre: string) =>
-  provinciaId ? `${provinciaId}__${slugify(nombre)}` : slugify(nombre)
-
-for (const record of municipioRecordsWithIds) {
-  if (!record.provinciaId) continue
-
-  const key = buildMunicipioKey(record.provinciaId, record.NOMBRE_ACTUAL)
-  if (!metadataByProvinceAndName.has(key)) {
-    metadataByProvinceAndName.set(key, record)
-  }
+// En el NATCODE de los recintos municipales, el código 53 marca los condominios
+const esCondominio = (feature: Feature<Geometry, MunicipioFeatureProperties>) =>
+  feature.properties?.NATCODE?.slice(6, 8) === '53'
 
-  const nameKey = slugify(record.NOMBRE_ACTUAL)
-  const existing = metadataByName.get(nameKey) ?? []
-  existing.push(record)
-  metadataByName.set(nameKey, existing)
-}
+// La "provincia" 54 agrupa territorios no adscritos a ningún municipio (Gibraltar, islas y
+// peñones de soberanía...)
+const esTerritorioNoAdscrito = (feature: Feature<Geometry, MunicipioFeatureProperties>) =>
+  feature.properties?.NATCODE?.slice(4, 6) === '54'
 
+// Por código INE del NATCODE y, si no existe, por nombre dentro de la comunidad del recinto
+// (CODNUT2). Los municipios de provincias sin geometría no se asocian
 const findMetadataForFeature = (
   feature: Feature<Geometry, MunicipioFeatureProperties>
-): EnrichedMunicipioRecord | undefined => {
-  const nombre = feature.properties?.NAMEUNIT ?? ''
-  const nameKey = slugify(nombre)
-
-  const candidates = metadataByName.get(nameKey)
-  if (!candidates || candidates.length === 0) return undefined
-
-  if (candidates.length === 1) return candidates[0]
-
+): AsociacionMunicipio => {
   const codNut2 = feature.properties?.CODNUT2
-  if (!codNut2) return candidates[0]
+  return asociarMunicipio({
+    ine: ineDeNatcode(feature.properties?.NATCODE),
+    nombre: feature.properties?.NAMEUNIT ?? '',
+    admite: (candidato) => {
+      const provincia = provinceByCod.get(candidato.codProv)
+      return Boolean(provincia) && (!codNut2 || provincia?.codNut2 === codNut2)
+    }
+  })
+}
 
-  const community = comunidades.find((comunidad) => comunidad.codNut2 === codNut2)
-  if (!community) return candidates[0]
+type RecintoSinAsociar = {
+  natcode: string
+  nombre: string
+  // Códigos INE de los municipios con ese nombre, cuando hay más de uno
+  candidatos: string[]
+}
 
-  return candidates.find((candidate) => candidate.comunidadId === community.id) ?? candidates[0]
+/** Resultado de asociar los recintos municipales del TopoJSON a municipios.json. */
+export type InformeAsociacion = {
+  recintos: number
+  porIne: number
+  porNombre: number
+  // Condominios: no son municipios y se tratan como territorios compartidos
+  condominios: number
+  noAdscritos: number
+  sinCoincidencia: RecintoSinAsociar[]
+  ambiguos: RecintoSinAsociar[]
 }
 
 type FeatureWithInfo = {
@@ -254,70 +255,135 @@ type FeatureWithInfo = {
 }
 
 const featuresWithInfo: FeatureWithInfo[] = []
+// Posición de cada geometría del TopoJSON -> id del municipio (si se pudo asociar a metadatos)
+const featureIdByGeometryIndex: (MunicipioId | undefined)[] = []
+// Código INE de cinco dígitos -> id del municipio, para las listas de idINES de COMJURIDIC
+const municipioIdByIne = new Map<string, MunicipioId>()
 
 const codNut3ToProvinceId = new Map<string, ProvinciaId>()
 
-for (const feature of municipioFeatures.features) {
-  const metadata = findMetadataForFeature(feature)
-  if (!metadata || !metadata.provinciaId || !metadata.comunidadId) continue
+const informe: InformeAsociacion = {
+  recintos: municipioFeatures.features.length,
+  porIne: 0,
+  porNombre: 0,
+  condominios: 0,
+  noAdscritos: 0,
+  sinCoincidencia: [],
+  ambiguos: []
+}
+
+for (const [geometryIndex, feature] of municipioFeatures.features.entries()) {
+  if (esCondominio(feature)) {
+    informe.condominios += 1
+    continue
+  }
+  if (esTerritorioNoAdscrito(feature)) {
+    informe.noAdscritos += 1
+    continue
+  }
+
+  const { registro: metadata, metodo, candidatos } = findMetadataForFeature(feature)
+  const provincia = metadata ? provinceByCod.get(metadata.codProv) : undefined
+  if (!metadata || !provincia) {
+    const recinto = {
+      natcode: feature.properties?.NATCODE ?? '',
+      nombre: feature.properties?.NAMEUNIT ?? '',
+      candidatos: candidatos.map((candidato) => candidato.ine)
+    }
+    if (metodo === 'ambiguo') informe.ambiguos.push(recinto)
+    else informe.sinCoincidencia.push(recinto)
+    continue
+  }
+  if (metodo === 'ine') informe.porIne += 1
+  else informe.porNombre += 1
 
-  const provinciaId = metadata.provinciaId
-  const comunidadId = metadata.comunidadId
-  const featureId = String(feature.properties?.NATCODE ?? feature.id ?? metadata.COD_INE ?? '')
+  const provinciaId = provincia.id
+  const featureId = String(feature.properties?.NATCODE ?? feature.id ?? metadata.ine)
   if (!featureId) continue
 
   feature.id = featureId
 
-  const superficieKm2 = typeof metadata.SUPERFICIE === 'number' ? metadata.SUPERFICIE / 100 : undefined
-  const densidadHabKm2 =
-    typeof metadata.POBLACION_MUNI === 'number' && typeof superficieKm2 === 'number' && superficieKm2 > 0
-      ? metadata.POBLACION_MUNI / superficieKm2
-      : undefined
-
   if (feature.properties?.CODNUT3 && !codNut3ToProvinceId.has(feature.properties.CODNUT3)) {
     codNut3ToProvinceId.set(feature.properties.CODNUT3, provinciaId)
   }
 
-  const info: MunicipioInfo = {
+  const info = crearMunicipioInfo(metadata, {
     id: featureId,
-    nombre: metadata.NOMBRE_ACTUAL,
     provincia: provinciaId,
-    comunidad: comunidadId,
-    poblacion: metadata.POBLACION_MUNI,
-    superficieKm2,
-    altitud: metadata.ALTITUD,
-    descripcion: undefined,
-    coordenadas:
-      typeof metadata.LATITUD_ETRS89 === 'number' && typeof metadata.LONGITUD_ETRS89 === 'number'
-        ? {
-            lat: metadata.LATITUD_ETRS89,
-            lon: metadata.LONGITUD_ETRS89
-          }
-        : undefined,
-    capital:
-      metadata.CAPITAL && metadata.CAPITAL !== metadata.NOMBRE_ACTUAL
-        ? {
-            id: metadata.COD_INE_CAPITAL ?? '',
-            nombre: metadata.CAPITAL,
-            tipo: 'capital',
-            poblacion: metadata.POBLACION_CAPITAL,
-            altitud: metadata.ALTITUD,
-            coordenadas:
-              typeof metadata.LATITUD_ETRS89 === 'number' &&
-              typeof metadata.LONGITUD_ETRS89 === 'number'
-                ? {
-                    lat: metadata.LATITUD_ETRS89,
-                    lon: metadata.LONGITUD_ETRS89
-                  }
-                : undefined
-          }
-        : undefined,
-    densidadHabKm2
-  }
+    comunidad: provincia.comunidadId
+  })
 
   featuresWithInfo.push({ feature, info })
+  featureIdByGeometryIndex[geometryIndex] = featureId
+  municipioIdByIne.set(metadata.ine, featureId)
 }
 
+export const informeAsociacion: InformeAsociacion = informe
+
+if (import.meta.env.DEV) {
+  const descartados = informe.sinCoincidencia.length + informe.ambiguos.length
+  console.info(
+    `Recintos municipales: ${informe.porIne} por código INE, ${informe.porNombre} por nombre, ` +
+      `${informe.condominios} condominios, ${informe.noAdscritos} territorios no adscritos y ` +
+      `${descartados} descartados.`
+  )
+  if (descartados) {
+    console.warn('Recintos sin municipio asociado', {
+      sinCoincidencia: informe.sinCoincidencia,
+      ambiguos: informe.ambiguos
+    })
+  }
+}
+
+/**
+ * Recintos limítrofes: dos recintos son vecinos si comparten al menos un arco en la
+ * topología original, sin depender de intersecciones geométricas aproximadas.
+ */
+const buildNeighbors = <Props extends Record<string, unknown>>(
+  topology: TopologyWithProps<Props>,
+  idByGeometryIndex: (string | undefined)[]
+) => {
+  const adjacency = new Map<string, string[]>()
+  const object = Object.values(topology.objects)[0]
+  if (!object || object.type !== 'GeometryCollection') return adjacency
+
+  const { geometries } = object as GeometryCollection<Props>
+  const neighborIndices = neighbors(geometries)
+
+  neighborIndices.forEach((indices, geometryIndex) => {
+    const id = idByGeometryIndex[geometryIndex]
+    if (!id) return
+    const vecinos = new Set(adjacency.get(id) ?? [])
+    for (const index of indices) {
+      const vecinoId = idByGeometryIndex[index]
+      if (vecinoId && vecinoId !== id) vecinos.add(vecinoId)
+    }
+    adjacency.set(id, Array.from(vecinos))
+  })
+
+  return adjacency
+}
+
+// La columna CAPITAL puede traer solo una de las formas bilingües ("Castelló de la Plana")
+const capitalesProvincia = new Map<ProvinciaId, MunicipioId>()
+for (const provincia of provincias) {
+  const variantesCapital = new Set(variantesNombre(provincia.capital))
+  const capital = featuresWithInfo.find(
+    ({ info }) =>
+      info.provincia === provincia.id &&
+      variantesNombre(info.nombre).some((variante) => variantesCapital.has(variante))
+  )
+  if (capital) capitalesProvincia.set(provincia.id, capital.info.id)
+}
+
+// Municipio capital de cada provincia, según la columna CAPITAL de provincias.json
+export const capitalProvinciaById: Map<ProvinciaId, MunicipioId> = capitalesProvincia
+
+export const municipioNeighbors: Map<MunicipioId, MunicipioId[]> = buildNeighbors(
+  municipioTopology,
+  featureIdByGeometryIndex
+)
+
 export const spanishMunicipioFeatures: Feature<Geometry, Record<string, unknown>>[] =
   featuresWithInfo.map(({ feature }) => feature)
 
@@ -329,3 +395,113 @@ export const spanishMunicipiosById = new Map<string, MunicipioInfo>(
 
 export const provincesByCommunity = provinceIdsByCommunity
 export const provinceById = new Map(provincias.map((prov) => [prov.id, prov]))
+
+const idsDeRecintos = (features: Feature<Geometry, Record<string, unknown>>[]) =>
+  features.map((feature) => (feature.id === undefined ? undefined : String(feature.id)))
+
+// Recintos de provincia y comunidad con id asignado (los que casan con los metadatos)
+export const spanishProvinciaFeatures: Feature<Geometry, Record<string, unknown>>[] =
+  provinciaFeatures.features.filter((feature) => feature.id !== undefined)
+
+export const spanishComunidadFeatures: Feature<Geometry, Record<string, unknown>>[] =
+  comunidadFeatures.features.filter((feature) => feature.id !== undefined)
+
+export const provinciaNeighbors: Map<ProvinciaId, ProvinciaId[]> = buildNeighbors(
+  provinciaTopology,
+  idsDeRecintos(provinciaFeatures.features)
+)
+
+export const comunidadNeighbors: Map<ComunidadId, ComunidadId[]> = buildNeighbors(
+  comunidadTopology,
+  idsDeRecintos(comunidadFeatures.features)
+)
+
+const condominioFeatures = municipioFeatures.features.filter(esCondominio)
+const condominioFeatureBySlug = new Map(
+  condominioFeatures.map((feature) => [slugify(feature.properties?.NAMEUNIT ?? ''), feature])
+)
+
+/**
+ * Algunos nombres no coinciden con los del recinto (erratas, formas abreviadas o en otra
+ * lengua), así que si falla el nombre se busca el condominio que contiene sus coordenadas.
+ */
+const findCondominioFeature = (record: (typeof comunidadesJuridicas)[number]) => {
+  const porNombre = condominioFeatureBySlug.get(slugify(record.NOMBRE_ACTUAL))
+  if (porNombre) return porNombre
+  const { LONGITUD_ETRS89: lon, LATITUD_ETRS89: lat } = record
+  if (typeof lon !== 'number' || typeof lat !== 'number') return undefined
+  return condominioFeatures.find((feature) => geoContains(feature, [lon, lat]))
+}
+
+const territoriosConRecinto: {
+  feature: Feature<Geometry, Record<string, unknown>>
+  info: TerritorioCompartido
+}[] = []
+
+for (const record of comunidadesJuridicas) {
+  const feature = findCondominioFeature(record)
+  const natcode = feature?.properties?.NATCODE
+  if (!feature || !natcode) continue
+
+  feature.id = natcode
+  territoriosConRecinto.push({
+    feature,
+    info: {
+      id: natcode,
+      nombre: record.NOMBRE_ACTUAL,
+      municipios: record.INE_MUNICIPIOS.flatMap((ine) => {
+        const municipioId = municipioIdByIne.get(ine)
+        return municipioId ? [municipioId] : []
+      }),
+      superficieKm2: typeof record.SUPERFICIE === 'number' ? record.SUPERFICIE / 100 : undefined,
+      coordenadas:
+        typeof record.LATITUD_ETRS89 === 'number' && typeof record.LONGITUD_ETRS89 === 'number'
+          ? { lat: record.LATITUD_ETRS89, lon: record.LONGITUD_ETRS89 }
+          : undefined
+    }
+  })
+}
+
+// Recintos de los territorios de COMJURIDIC.csv, que el mapa de municipios deja en blanco
+export const spanishTerritorioFeatures: Feature<Geometry, Record<string, unknown>>[] =
+  territoriosConRecinto.map(({ feature }) => feature)
+
+export const territorioById = new Map<string, TerritorioCompartido>(
+  territoriosConRecinto.map(({ info }) => [info.id, info])
+)
+
+/**
+ * Provincias y comunidades con la forma de `MunicipioInfo`, para que el mapa y el motor de
+ * preguntas las traten igual que a los municipios en los retos de esos niveles.
+ */
+const provinciasComoInfo: MunicipioInfo[] = provincias.map((provincia) => ({
+  id: provincia.id,
+  nombre: provincia.nombre,
+  provincia: provincia.id,
+  comunidad: provincia.comunidadId
+}))
+
+const comunidadesComoInfo: MunicipioInfo[] = comunidades.map((comunidad) => ({
+  id: comunidad.id,
+  nombre: comunidad.nombre,
+  provincia: '',
+  comunidad: comunidad.id
+}))
+
+export const divisionInfoById: Record<NivelGeografico, Map<string, MunicipioInfo>> = {
+  municipio: spanishMunicipiosById,
+  provincia: new Map(provinciasComoInfo.map((info) => [info.id, info])),
+  comunidad: new Map(comunidadesComoInfo.map((info) => [info.id, info]))
+}
+
+export const divisionFeatures: Record<NivelGeografico, Feature<Geometry, Record<string, unknown>>[]> = {
+  municipio: spanishMunicipioFeatures,
+  provincia: spanishProvinciaFeatures,
+  comunidad: spanishComunidadFeatures
+}
+
+export const divisionNeighbors: Record<NivelGeografico, Map<string, string[]>> = {
+  municipio: municipioNeighbors,
+  provincia: provinciaNeighbors,
+  comunidad: comunidadNeighbors
+}
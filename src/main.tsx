@@ -4,6 +4,10 @@ import 'maplibre-gl/dist/maplibre-gl.css'
 import './index.css'
 import './styles/mobile.css'
 import App from './App.tsx'
+import { applyUrlStateToStore, readUrlState } from './store/urlSync'
+
+// Un enlace compartido manda sobre el estado guardado: se aplica antes del primer render
+applyUrlStateToStore(readUrlState())
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,23 +1,73 @@
 import { create } from 'zustand'
+import { geoCentroid } from 'd3-geo'
+import { persist } from 'zustand/middleware'
 import type {
   ComunidadId,
+  Coordenadas,
+  EntidadInfo,
   MunicipioId,
   MunicipioInfo,
   NivelDificultad,
-  ProvinciaId,
-  RespuestaEstado
+  NivelGeografico,
+  ProvinciaId
 } from '../types/municipio'
 import {
+  capitalProvinciaById,
   comunidades as comunidadSummaries,
+  divisionFeatures,
+  divisionInfoById,
+  municipioNeighbors,
   provincias as provinciaSummaries,
   provinceById,
   provincesByCommunity,
   spanishMunicipiosById,
   spanishMunicipiosInfo
 } from '../data/spainDivisions'
+import { entidadById } from '../data/entidadesMetadata'
+import { createVersionedStorage, runMigrations, type Migration } from './persistence'
+import {
+  REPASO_LIMITE,
+  registrarRespuesta,
+  seleccionarParaRepaso,
+  type HistorialAprendizaje
+} from '../utils/spacedRepetition'
+import { coincideNombre, normalizarNombre } from '../utils/nameMatching'
+import { elegirDistractores } from '../utils/distractors'
+import { distanciaKm } from '../utils/geo'
+import { crearGenerador, nuevaSemilla, type Random } from '../utils/random'
+import { codificarReto, type DefinicionReto } from '../utils/challengeCode'
+import { guardarPartida, tipoDeReto, type RegistroPartida } from './runHistory'
+import {
+  QUESTION_TIME_LIMIT,
+  answer,
+  createQuiz,
+  skip,
+  timeout,
+  type AjustesTiempo,
+  type DifficultyLevel,
+  type QuizQuestion,
+  type QuizState,
+  type ReglasQuiz,
+  type RelojPartida,
+  type Respuesta,
+  type TipoPregunta
+} from './quizEngine'
+
+export type {
+  AjustesTiempo,
+  DifficultyLevel,
+  ModoTiempo,
+  QuizQuestion,
+  RelojPartida,
+  TipoPregunta
+} from './quizEngine'
+export { QUESTION_TIME_LIMIT }
 
 export type GameMode = 'estudio' | 'reto'
 
+// Duración por defecto de la cuenta atrás de toda la partida (segundos)
+export const RUN_TIME_LIMIT = 120
+
 export type ColorMode =
   | 'colorido'
   | 'por-provincia'
@@ -25,23 +75,18 @@ export type ColorMode =
   | 'poblacion'
   | 'altitud'
 
-type QuizQuestion = {
-  id: string
-  municipioId: MunicipioId
-  nombre: string
-  estado: RespuestaEstado
-  respuesta?: MunicipioId
-}
+export const seRespondeEnElMapa = (tipo: TipoPregunta) => tipo !== 'nombrar' && tipo !== 'opciones'
 
-type MapStatus = Record<MunicipioId, RespuestaEstado>
+// Pistas por pregunta: provincia, municipios vecinos y acercar el mapa a la zona
+export const NIVELES_PISTA = 3
+// Porcentaje de los puntos de la pregunta que cuesta cada pista, en orden
+export const DEFAULT_PENALIZACIONES_PISTA = [10, 20, 30]
 
 export type CelebrationState = {
   municipioId: MunicipioId
   key: number
 }
 
-export type DifficultyLevel = 'facil' | 'dificil'
-
 const comunidadCastillaLaMancha = comunidadSummaries.find(
   (comunidad) => comunidad.nombre.toLowerCase() === 'castilla-la mancha'
 )
@@ -55,49 +100,223 @@ const defaultProvinceSelection = provincesByCommunity.get(DEFAULT_COMMUNITY_ID)
 
 const unique = <T,>(values: T[]) => Array.from(new Set(values))
 
-type GameState = {
+// Provincias con lengua cooficial, donde "Vitoria-Gasteiz" es una denominación bilingüe
+const PROVINCIAS_BILINGUES = new Set([
+  '01', '03', '07', '08', '12', '15', '17', '20', '25', '27', '31', '32', '36', '43', '46', '48'
+])
+
+// Los nombres de comunidad no usan guion bilingüe; los de provincia ya separan con barra
+const esNombreBilingue = (nivel: NivelGeografico, id: string) => {
+  if (nivel === 'comunidad') return false
+  const provincia = divisionInfoById[nivel].get(id)?.provincia
+  const codProv = provincia ? provinceById.get(provincia)?.codProv : undefined
+  return codProv ? PROVINCIAS_BILINGUES.has(codProv.padStart(2, '0')) : false
+}
+
+const indexarPorId = <T extends { id?: string | number }>(features: T[]) =>
+  new Map(features.map((feature) => [String(feature.id), feature]))
+
+const featureById = {
+  municipio: indexarPorId(divisionFeatures.municipio),
+  provincia: indexarPorId(divisionFeatures.provincia),
+  comunidad: indexarPorId(divisionFeatures.comunidad)
+}
+const posicionCache = new Map<string, Coordenadas | undefined>()
+
+// Coordenadas oficiales del municipio o, si faltan (y en provincias y comunidades), el centroide
+const posicionRecinto = (nivel: NivelGeografico, id: string): Coordenadas | undefined => {
+  const clave = `${nivel}:${id}`
+  if (posicionCache.has(clave)) return posicionCache.get(clave)
+  let posicion = divisionInfoById[nivel].get(id)?.coordenadas
+  const feature = featureById[nivel].get(id)
+  if (!posicion && feature) {
+    const [lon, lat] = geoCentroid(feature)
+    posicion = Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : undefined
+  }
+  posicionCache.set(clave, posicion)
+  return posicion
+}
+
+const distanciaEntreRecintos = (nivel: NivelGeografico, a: string, b: string) => {
+  if (a === b) return 0
+  const origen = posicionRecinto(nivel, a)
+  const destino = posicionRecinto(nivel, b)
+  return origen && destino ? distanciaKm(origen, destino) : undefined
+}
+
+// Provincias o comunidades que abarca un conjunto de municipios, en el orden de los datos
+const recintosDeMunicipios = (nivel: NivelGeografico, municipios: MunicipioInfo[]) => {
+  if (nivel === 'municipio') return municipios
+  const ids = new Set(
+    municipios.map((municipio) => (nivel === 'provincia' ? municipio.provincia : municipio.comunidad))
+  )
+  return Array.from(divisionInfoById[nivel].values()).filter((info) => ids.has(info.id))
+}
+
+// Las preguntas, la puntuación y el orden los lleva quizEngine; el store añade lo que ve el mapa
+type GameState = QuizState & {
   modo: GameMode
   colorMode: ColorMode
   dificultad: NivelDificultad
   dificultadReto: DifficultyLevel
+  tipoPregunta: TipoPregunta
+  nivelGeografico: NivelGeografico
   soundEnabled: boolean
   theme: 'oscuro' | 'claro'
   selectedCommunities: ComunidadId[]
   selectedProvinces: ProvinciaId[]
-  preguntas: QuizQuestion[]
-  activeIndex: number
-  aciertos: number
-  fallos: number
-  completado: boolean
-  mapaEstados: MapStatus
   correctBlinkId?: MunicipioId
   celebration?: CelebrationState
-  lockedMunicipios?: Set<MunicipioId>
-  startQuiz: (params: { dificultad: NivelDificultad; municipios: MunicipioInfo[] }) => void
+  partidaIniciadaEn?: number
+  // Nivel de la partida en curso; los ids de preguntas y respuestas son de ese nivel
+  nivelPartida: NivelGeografico
+  ajustesTiempo: AjustesTiempo
+  reloj?: RelojPartida
+  penalizacionesPista: number[]
+  historial: HistorialAprendizaje
+  // Definición de la partida en curso, para poder compartirla como código de reto
+  reto?: DefinicionReto
+  startQuiz: (params: {
+    dificultad: NivelDificultad
+    municipios: MunicipioInfo[]
+    nivel?: NivelGeografico
+    reto?: DefinicionReto
+  }) => void
   marcarMunicipio: (municipioId: MunicipioId) => void
+  marcarEntidad: (entidad: EntidadInfo) => void
+  responderNombre: (texto: string) => boolean
+  saltarPregunta: () => void
   resetQuiz: () => void
   setModo: (modo: GameMode) => void
   setColorMode: (mode: ColorMode) => void
   setDificultadReto: (dificultad: DifficultyLevel) => void
+  setTipoPregunta: (tipo: TipoPregunta) => void
+  setNivelGeografico: (nivel: NivelGeografico) => void
   toggleSound: () => void
   toggleTheme: () => void
   setSelectedCommunities: (communities: ComunidadId[]) => void
   toggleCommunity: (communityId: ComunidadId) => void
   toggleProvince: (provinciaId: ProvinciaId) => void
   setSelectedProvinces: (provincias: ProvinciaId[]) => void
+  setSelection: (selection: { communities?: ComunidadId[]; provinces?: ProvinciaId[] }) => void
   clearCelebration: () => void
   registrarTiempoAgotado: () => void
+  setAjustesTiempo: (ajustes: Partial<AjustesTiempo>) => void
+  togglePausa: () => void
+  comprobarTiempo: (ahora?: number) => void
+  setPenalizacionesPista: (penalizaciones: number[]) => void
+  pedirPista: () => number
 }
 
-const shuffle = <T,>(array: T[]): T[] => {
+const shuffle = <T,>(array: T[], random: Random = Math.random): T[] => {
   const result = [...array]
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[result[i], result[j]] = [result[j], result[i]]
   }
   return result
 }
 
+const municipiosPorComunidad = new Map<ComunidadId, MunicipioInfo[]>()
+for (const municipio of spanishMunicipiosInfo) {
+  const lista = municipiosPorComunidad.get(municipio.comunidad) ?? []
+  lista.push(municipio)
+  municipiosPorComunidad.set(municipio.comunidad, lista)
+}
+
+// Con pocas provincias o comunidades los distractores se eligen al azar entre todas
+const buildOpciones = (
+  nivel: NivelGeografico,
+  recinto: MunicipioInfo,
+  random: Random
+): MunicipioId[] => {
+  const distractores =
+    nivel === 'municipio'
+      ? elegirDistractores(recinto, municipiosPorComunidad.get(recinto.comunidad) ?? [], {
+          random,
+          vecinos: (municipioNeighbors.get(recinto.id) ?? [])
+            .map((id) => spanishMunicipiosById.get(id))
+            .filter((vecino): vecino is MunicipioInfo => Boolean(vecino))
+        })
+      : shuffle(
+          Array.from(divisionInfoById[nivel].values()).filter((info) => info.id !== recinto.id),
+          random
+        ).slice(0, 3)
+  return shuffle([recinto, ...distractores], random).map((opcion) => opcion.id)
+}
+
+// Capital y demás entidades de población con un nombre distinto al del municipio
+const entidadesConNombrePropio = (municipio: MunicipioInfo): EntidadInfo[] => {
+  const nombreMunicipio = normalizarNombre(municipio.nombre)
+  const entidades = [
+    ...(municipio.capital ? [municipio.capital] : []),
+    ...(municipio.entidades ?? [])
+  ]
+  return entidades.filter((entidad) => normalizarNombre(entidad.nombre) !== nombreMunicipio)
+}
+
+const entidadesLocalizables = (municipio: MunicipioInfo): EntidadInfo[] =>
+  (municipio.entidades ?? []).filter((entidad) => entidad.coordenadas)
+
+// Municipios sobre los que se puede preguntar con cada tipo dentro del conjunto elegido
+const municipiosParaTipo = (tipo: TipoPregunta, municipios: MunicipioInfo[]) => {
+  if (tipo === 'capital') {
+    return unique(municipios.map((municipio) => municipio.provincia))
+      .map((provinciaId) => capitalProvinciaById.get(provinciaId))
+      .map((capitalId) => (capitalId ? spanishMunicipiosById.get(capitalId) : undefined))
+      .filter((municipio): municipio is MunicipioInfo => Boolean(municipio))
+  }
+  if (tipo === 'entidad') {
+    return municipios.filter((municipio) => entidadesConNombrePropio(municipio).length > 0)
+  }
+  if (tipo === 'localidad') {
+    return municipios.filter((municipio) => entidadesLocalizables(municipio).length > 0)
+  }
+  return municipios
+}
+
+const crearPregunta = (
+  tipo: TipoPregunta,
+  nivel: NivelGeografico,
+  recinto: MunicipioInfo,
+  random: Random
+): QuizQuestion => {
+  const pregunta: QuizQuestion = {
+    id: `q-${recinto.id}`,
+    tipo,
+    municipioId: recinto.id,
+    nombre: recinto.nombre,
+    estado: 'pendiente'
+  }
+  if (tipo === 'opciones') return { ...pregunta, opciones: buildOpciones(nivel, recinto, random) }
+  if (tipo === 'capital') {
+    const provincia = provinceById.get(recinto.provincia)?.nombre ?? recinto.provincia
+    return { ...pregunta, enunciado: `¿Cuál es la capital de la provincia de ${provincia}?` }
+  }
+  if (tipo === 'entidad') {
+    const entidades = entidadesConNombrePropio(recinto)
+    const entidad = entidades[Math.floor(random() * entidades.length)]
+    return { ...pregunta, enunciado: `¿En qué municipio está ${entidad.nombre}?` }
+  }
+  if (tipo === 'localidad') {
+    const entidades = entidadesLocalizables(recinto)
+    const entidad = entidades[Math.floor(random() * entidades.length)]
+    return { ...pregunta, nombre: entidad.nombre, entidadId: entidad.id }
+  }
+  return pregunta
+}
+
+// El repaso espaciado solo sigue municipios: las provincias y comunidades no lo alteran
+const actualizarHistorial = (
+  historial: HistorialAprendizaje,
+  nivel: NivelGeografico,
+  id: string,
+  respuesta: Parameters<typeof registrarRespuesta>[1]
+): HistorialAprendizaje =>
+  nivel === 'municipio'
+    ? { ...historial, [id]: registrarRespuesta(historial[id], respuesta) }
+    : historial
+
 const createInitialQuizState = (): Pick<
   GameState,
   | 'dificultad'
@@ -105,24 +324,165 @@ const createInitialQuizState = (): Pick<
   | 'activeIndex'
   | 'aciertos'
   | 'fallos'
+  | 'puntos'
   | 'completado'
   | 'mapaEstados'
   | 'correctBlinkId'
   | 'celebration'
   | 'lockedMunicipios'
+  | 'preguntaIniciadaEn'
+  | 'partidaIniciadaEn'
+  | 'nivelPartida'
+  | 'reloj'
+  | 'reto'
 > => ({
   dificultad: 'estudio',
   preguntas: [],
   activeIndex: -1,
   aciertos: 0,
   fallos: 0,
+  puntos: 0,
   completado: false,
   mapaEstados: {},
   correctBlinkId: undefined,
   celebration: undefined,
-  lockedMunicipios: undefined
+  lockedMunicipios: undefined,
+  preguntaIniciadaEn: undefined,
+  partidaIniciadaEn: undefined,
+  nivelPartida: 'municipio',
+  reloj: undefined,
+  reto: undefined
 })
 
+const DEFAULT_AJUSTES_TIEMPO: AjustesTiempo = {
+  modo: 'por-pregunta',
+  limitePregunta: QUESTION_TIME_LIMIT,
+  limitePartida: RUN_TIME_LIMIT
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const tieneLimitePorPregunta = (reloj?: RelojPartida) =>
+  reloj?.modo === 'por-pregunta' || reloj?.modo === 'muerte-subita'
+
+const estadoQuiz = (state: GameState): QuizState => ({
+  preguntas: state.preguntas,
+  activeIndex: state.activeIndex,
+  aciertos: state.aciertos,
+  fallos: state.fallos,
+  puntos: state.puntos,
+  completado: state.completado,
+  mapaEstados: state.mapaEstados,
+  lockedMunicipios: state.lockedMunicipios,
+  preguntaIniciadaEn: state.preguntaIniciadaEn
+})
+
+const reglasQuiz = (state: GameState): ReglasQuiz => ({
+  dificultadReto: state.dificultadReto,
+  reloj: state.reloj,
+  penalizacionesPista: state.penalizacionesPista
+})
+
+/**
+ * Pasa al motor una respuesta ya evaluada y añade lo que depende del mapa: la celebración,
+ * el parpadeo del recinto correcto tras un fallo y el historial de repaso. Devuelve undefined
+ * si no se podía contestar (pausa, partida terminada o pregunta ya respondida).
+ */
+const aplicarRespuesta = (
+  state: GameState,
+  respuesta: Respuesta,
+  { senalarCorrecta = true }: { senalarCorrecta?: boolean } = {}
+): (QuizState & Pick<GameState, 'correctBlinkId' | 'celebration' | 'historial'>) | undefined => {
+  const pregunta = state.preguntas[state.activeIndex]
+  const anterior = estadoQuiz(state)
+  const siguiente = answer(anterior, respuesta, reglasQuiz(state))
+  if (!pregunta || siguiente === anterior) return undefined
+
+  const { correcta, ahora } = respuesta
+  return {
+    ...siguiente,
+    correctBlinkId: !correcta && senalarCorrecta ? pregunta.municipioId : undefined,
+    celebration: correcta ? { municipioId: pregunta.municipioId, key: ahora } : undefined,
+    historial: actualizarHistorial(state.historial, state.nivelPartida, pregunta.municipioId, {
+      correcta,
+      tiempoMs: siguiente.preguntas[state.activeIndex].tiempoMs,
+      ahora
+    })
+  }
+}
+
+/**
+ * Milisegundos que quedan antes de que venza el reloj (de la pregunta o de la partida), o
+ * undefined si la partida no tiene límite. Con la partida en pausa el tiempo no corre.
+ */
+export const tiempoRestanteMs = (
+  state: Pick<GameState, 'reloj' | 'preguntaIniciadaEn' | 'partidaIniciadaEn'>,
+  ahora = Date.now()
+) => {
+  const { reloj, preguntaIniciadaEn, partidaIniciadaEn } = state
+  if (!reloj) return undefined
+  const referencia = reloj.pausadoEn ?? ahora
+  if (reloj.modo === 'cuenta-atras') {
+    if (!partidaIniciadaEn) return undefined
+    const limiteMs = reloj.limitePartida * 1000
+    return clamp(limiteMs - (referencia - partidaIniciadaEn), 0, limiteMs)
+  }
+  if (!tieneLimitePorPregunta(reloj) || !preguntaIniciadaEn) return undefined
+  const limiteMs = reloj.limitePregunta * 1000
+  return clamp(limiteMs - (referencia - preguntaIniciadaEn), 0, limiteMs)
+}
+
+const crearRegistroPartida = (state: GameState): RegistroPartida => {
+  const fecha = Date.now()
+  const provincias = state.reto ? state.reto.provincias : state.selectedProvinces
+  return {
+    id: `${fecha.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    fecha,
+    duracionMs: state.partidaIniciadaEn ? fecha - state.partidaIniciadaEn : undefined,
+    dificultad: state.dificultad,
+    dificultadReto: state.dificultadReto,
+    tipoReto: tipoDeReto(state.dificultad, state.reto?.masPoblados),
+    tipoPregunta: state.preguntas[0]?.tipo ?? state.tipoPregunta,
+    nivel: state.nivelPartida,
+    tiempo: state.reloj
+      ? {
+          modo: state.reloj.modo,
+          limitePregunta: state.reloj.limitePregunta,
+          limitePartida: state.reloj.limitePartida
+        }
+      : undefined,
+    provincias,
+    comunidades: provincias.length ? ensureCommunitiesFromProvinces(provincias) : [],
+    masPoblados: state.reto?.masPoblados,
+    codigoReto: state.reto ? codificarReto(state.reto) : undefined,
+    total: state.preguntas.length,
+    aciertos: state.aciertos,
+    fallos: state.fallos,
+    puntos: state.puntos,
+    preguntas: state.preguntas.map((pregunta) => ({
+      municipioId: pregunta.municipioId,
+      nombre: pregunta.nombre,
+      enunciado: pregunta.enunciado,
+      tipo: pregunta.tipo,
+      estado: pregunta.estado,
+      respuesta: pregunta.respuesta,
+      respuestaTexto: pregunta.respuestaTexto,
+      respuestaEntidad: pregunta.respuestaEntidad,
+      tiempoMs: pregunta.tiempoMs,
+      distanciaKm: pregunta.distanciaKm,
+      puntos: pregunta.puntos,
+      pistas: pregunta.pistas
+    }))
+  }
+}
+
+// El historial es un extra: si IndexedDB falla la partida sigue su curso
+const archivarPartida = (state: GameState) => {
+  guardarPartida(crearRegistroPartida(state)).catch((error) => {
+    console.warn('No se pudo guardar la partida en el historial', error)
+  })
+}
+
 const ensureCommunitiesFromProvinces = (provinces: ProvinciaId[]): ComunidadId[] => {
   const communitiesFromProvinces = provinces
     .map((provinciaId) => provinceById.get(provinciaId)?.comunidadId)
@@ -131,281 +491,513 @@ const ensureCommunitiesFromProvinces = (provinces: ProvinciaId[]): ComunidadId[]
   return unique(communitiesFromProvinces.length ? communitiesFromProvinces : [DEFAULT_COMMUNITY_ID])
 }
 
-export const useGameStore = create<GameState>((set, get) => ({
-  modo: 'estudio',
-  colorMode: 'por-provincia',
-  dificultadReto: 'dificil',
-  soundEnabled: true,
-  theme: 'oscuro',
-  selectedCommunities: [DEFAULT_COMMUNITY_ID],
-  selectedProvinces: defaultProvinceSelection.length ? defaultProvinceSelection : [],
-  ...createInitialQuizState(),
-  startQuiz: ({ dificultad, municipios }) => {
-    if (!municipios.length) return
-    const { dificultadReto } = get()
-
-    const pool = shuffle(municipios)
-    const limit =
-      dificultad === 'reto-10'
-        ? Math.min(10, pool.length)
-        : dificultad === 'reto-provincia'
-          ? pool.length
-          : pool.length
-
-    const selected = pool.slice(0, limit)
-    const preguntas: QuizQuestion[] = selected.map((municipio) => ({
-      id: `q-${municipio.id}`,
-      municipioId: municipio.id,
-      nombre: municipio.nombre,
-      estado: 'pendiente'
-    }))
-
-    set({
-      modo: 'reto',
-      dificultad,
-      preguntas,
-      activeIndex: preguntas.length ? 0 : -1,
-      aciertos: 0,
-      fallos: 0,
-      completado: preguntas.length === 0,
-      mapaEstados: {},
-      correctBlinkId: undefined,
-      celebration: undefined,
-      lockedMunicipios: dificultadReto === 'facil' ? new Set<MunicipioId>() : undefined
-    })
-  },
-  marcarMunicipio: (municipioId) => {
-    const {
-      preguntas,
-      activeIndex,
-      completado,
-      mapaEstados,
-      aciertos,
-      fallos,
-      dificultadReto,
-      lockedMunicipios
-    } = get()
-    if (preguntas.length === 0 || activeIndex < 0 || completado) return
-    const pregunta = preguntas[activeIndex]
-    if (pregunta.estado !== 'pendiente') return
-
-    const updatedPreguntas = [...preguntas]
-    const updatedMapa: MapStatus = { ...mapaEstados }
-    let nuevosAciertos = aciertos
-    let nuevosFallos = fallos
-    let correctBlinkId: MunicipioId | undefined
-    let celebration: CelebrationState | undefined
-
-    let estado: RespuestaEstado
-    if (municipioId === pregunta.municipioId) {
-      estado = 'correcta'
-      updatedMapa[pregunta.municipioId] = 'correcta'
-      nuevosAciertos += 1
-      correctBlinkId = undefined
-      celebration = {
-        municipioId: pregunta.municipioId,
-        key: Date.now()
-      }
-    } else {
-      estado = 'fallida'
-      updatedMapa[municipioId] = 'fallida'
-      updatedMapa[pregunta.municipioId] = 'correcta'
-      nuevosFallos += 1
-      correctBlinkId = pregunta.municipioId
-      celebration = undefined
-    }
-
-    updatedPreguntas[activeIndex] = {
-      ...pregunta,
-      estado,
-      respuesta: municipioId
-    }
+const GAME_STORAGE_KEY = 'clm-municipios:juego'
+const GAME_STORAGE_VERSION = 3
+
+// Cada entrada N convierte el estado guardado en la versión N - 1 al formato de la versión N
+const gameMigrations: Record<number, Migration> = {
+  2: (state) => ({ ...state, historial: {} }),
+  3: (state) => ({
+    ...state,
+    tipoPregunta: 'localizar',
+    preguntas: Array.isArray(state.preguntas)
+      ? state.preguntas.map((pregunta) => ({ tipo: 'localizar', ...pregunta }))
+      : []
+  })
+}
 
-    const nextIndex = updatedPreguntas.findIndex(
-      (q, idx) => idx > activeIndex && q.estado === 'pendiente'
-    )
-    const newCompleted = nextIndex === -1
-
-    let updatedLocked = lockedMunicipios ?? new Set<MunicipioId>()
-    if (dificultadReto === 'facil') {
-      updatedLocked = new Set<MunicipioId>(updatedLocked)
-      updatedLocked.add(pregunta.municipioId)
-      if (estado === 'fallida') {
-        updatedLocked.add(municipioId)
-      }
-    }
+type PersistedGameState = Pick<
+  GameState,
+  | 'modo'
+  | 'colorMode'
+  | 'dificultad'
+  | 'dificultadReto'
+  | 'tipoPregunta'
+  | 'nivelGeografico'
+  | 'soundEnabled'
+  | 'theme'
+  | 'selectedCommunities'
+  | 'selectedProvinces'
+  | 'preguntas'
+  | 'activeIndex'
+  | 'aciertos'
+  | 'fallos'
+  | 'puntos'
+  | 'completado'
+  | 'mapaEstados'
+  | 'lockedMunicipios'
+  | 'nivelPartida'
+  | 'ajustesTiempo'
+  | 'reloj'
+  | 'penalizacionesPista'
+  | 'historial'
+  | 'reto'
+> & {
+  // Tiempo jugado de la partida en curso: con la hora de inicio, la cuenta atrás seguiría
+  // corriendo con la pestaña cerrada
+  tiempoPartidaMs?: number
+}
 
-    set({
-      preguntas: updatedPreguntas,
-      activeIndex: newCompleted ? -1 : nextIndex,
-      aciertos: nuevosAciertos,
-      fallos: nuevosFallos,
-      completado: newCompleted,
-      mapaEstados: updatedMapa,
-      correctBlinkId,
-      celebration,
-      lockedMunicipios: dificultadReto === 'facil' ? updatedLocked : undefined
-    })
-  },
-  resetQuiz: () => set((state) => ({ ...state, ...createInitialQuizState() })),
-  setModo: (modo) => {
-    if (modo === 'estudio') {
-      set((state) => ({
-        ...state,
-        modo,
-        ...createInitialQuizState()
-      }))
-    } else {
-      set({ modo })
-    }
-  },
-  setColorMode: (mode) => set({ colorMode: mode }),
-  setDificultadReto: (dificultad) =>
-    set((state) => ({
-      dificultadReto: dificultad,
-      lockedMunicipios:
-        dificultad === 'facil'
-          ? new Set(
-              state.preguntas
-                .filter((pregunta) => pregunta.estado !== 'pendiente')
-                .map((pregunta) => pregunta.municipioId)
-            )
-          : undefined
-    })),
-  toggleSound: () => set((state) => ({ soundEnabled: !state.soundEnabled })),
-  toggleTheme: () =>
-    set((state) => ({
-      theme: state.theme === 'oscuro' ? 'claro' : 'oscuro'
-    })),
-  setSelectedCommunities: (communities) => {
-    const validCommunities = communities.length ? communities : [DEFAULT_COMMUNITY_ID]
-    const newProvinces = unique(
-      validCommunities.flatMap(
-        (comunidadId) => provincesByCommunity.get(comunidadId) ?? []
-      )
-    )
-    set({
-      selectedCommunities: validCommunities,
-      selectedProvinces: newProvinces.length ? newProvinces : defaultProvinceSelection
-    })
-  },
-  toggleCommunity: (communityId) => {
-    const { selectedCommunities, selectedProvinces } = get()
-    const currentCommunities = new Set(selectedCommunities)
-
-    if (currentCommunities.has(communityId)) {
-      if (currentCommunities.size === 1) return
-      currentCommunities.delete(communityId)
-      const remainingCommunities = Array.from(currentCommunities)
-      const provincesToRemove = provincesByCommunity.get(communityId) ?? []
-      const filteredProvinces = selectedProvinces.filter(
-        (provinciaId) => !provincesToRemove.includes(provinciaId)
-      )
-
-      set({
-        selectedCommunities: remainingCommunities,
-        selectedProvinces:
-          filteredProvinces.length > 0
-            ? filteredProvinces
-            : provincesByCommunity.get(remainingCommunities[0]) ?? filteredProvinces
-      })
-      return
-    }
+// Versiones anteriores guardaban la hora de inicio de la partida
+type PersistedGameStateLegacy = Partial<PersistedGameState> & { partidaIniciadaEn?: number }
+
+const partializeGameState = (state: GameState): PersistedGameState => ({
+  modo: state.modo,
+  colorMode: state.colorMode,
+  dificultad: state.dificultad,
+  dificultadReto: state.dificultadReto,
+  tipoPregunta: state.tipoPregunta,
+  nivelGeografico: state.nivelGeografico,
+  soundEnabled: state.soundEnabled,
+  theme: state.theme,
+  selectedCommunities: state.selectedCommunities,
+  selectedProvinces: state.selectedProvinces,
+  preguntas: state.preguntas,
+  activeIndex: state.activeIndex,
+  aciertos: state.aciertos,
+  fallos: state.fallos,
+  puntos: state.puntos,
+  completado: state.completado,
+  mapaEstados: state.mapaEstados,
+  lockedMunicipios: state.lockedMunicipios,
+  tiempoPartidaMs: state.partidaIniciadaEn
+    ? (state.reloj?.pausadoEn ?? Date.now()) - state.partidaIniciadaEn
+    : undefined,
+  nivelPartida: state.nivelPartida,
+  ajustesTiempo: state.ajustesTiempo,
+  reloj: state.reloj,
+  penalizacionesPista: state.penalizacionesPista,
+  historial: state.historial,
+  reto: state.reto
+})
 
-    const provincesToAdd = provincesByCommunity.get(communityId) ?? []
-    set({
-      selectedCommunities: [...selectedCommunities, communityId],
-      selectedProvinces: unique([...selectedProvinces, ...provincesToAdd])
-    })
-  },
-  toggleProvince: (provinciaId) => {
-    const { selectedProvinces, selectedCommunities } = get()
-    const province = provinceById.get(provinciaId)
-    if (!province) return
-
-    const isSelected = selectedProvinces.includes(provinciaId)
-    if (isSelected) {
-      if (selectedProvinces.length === 1) return
-      const updatedProvinces = selectedProvinces.filter((id) => id !== provinciaId)
-
-      const provincesOfCommunity = provincesByCommunity.get(province.comunidadId) ?? []
-      const stillHasProvince = updatedProvinces.some((id) => provincesOfCommunity.includes(id))
-      const updatedCommunities = stillHasProvince
-        ? selectedCommunities
-        : selectedCommunities.filter((id) => id !== province.comunidadId)
-
-      set({
-        selectedProvinces: updatedProvinces,
-        selectedCommunities: updatedCommunities.length
-          ? updatedCommunities
-          : ensureCommunitiesFromProvinces(updatedProvinces)
-      })
-      return
-    }
+const mergePersistedState = (persisted: unknown, current: GameState): GameState => {
+  if (!persisted || typeof persisted !== 'object') return current
+  const stored = persisted as PersistedGameStateLegacy
 
-    const updatedProvinces = unique([...selectedProvinces, provinciaId])
-    const updatedCommunities = selectedCommunities.includes(province.comunidadId)
-      ? selectedCommunities
-      : [...selectedCommunities, province.comunidadId]
+  // Los datos pueden haber cambiado entre versiones: se descartan ids que ya no existen
+  const selectedProvinces = (stored.selectedProvinces ?? []).filter((id) => provinceById.has(id))
+  const selection = selectedProvinces.length
+    ? {
+        selectedProvinces,
+        selectedCommunities: ensureCommunitiesFromProvinces(selectedProvinces)
+      }
+    : {}
+
+  const preguntas = stored.preguntas ?? []
+  const ajustesTiempo = { ...DEFAULT_AJUSTES_TIEMPO, ...stored.ajustesTiempo }
+  const nivelPartida = stored.nivelPartida ?? 'municipio'
+  const quizIsValid =
+    preguntas.length > 0 &&
+    preguntas.every((pregunta) => divisionInfoById[nivelPartida]?.has(pregunta.municipioId))
+  // Al recargar, la pregunta en curso vuelve a empezar y la partida sigue con el tiempo que
+  // llevaba jugado; si estaba en pausa, la pausa empieza ahora para que reanudar no descuente
+  // el tiempo que la pestaña estuvo cerrada
+  const ahora = Date.now()
+  const reloj = stored.reloj
+    ? { ...stored.reloj, pausadoEn: stored.reloj.pausadoEn ? ahora : undefined }
+    : { ...DEFAULT_AJUSTES_TIEMPO }
+  const tiempoPartidaMs =
+    stored.tiempoPartidaMs ??
+    (stored.partidaIniciadaEn ? ahora - stored.partidaIniciadaEn : undefined)
+  const quiz = quizIsValid
+    ? {
+        dificultad: stored.dificultad ?? current.dificultad,
+        preguntas,
+        activeIndex: stored.activeIndex ?? -1,
+        aciertos: stored.aciertos ?? 0,
+        fallos: stored.fallos ?? 0,
+        puntos: stored.puntos ?? 0,
+        completado: stored.completado ?? false,
+        mapaEstados: stored.mapaEstados ?? {},
+        reto: stored.reto,
+        partidaIniciadaEn: tiempoPartidaMs !== undefined ? ahora - tiempoPartidaMs : undefined,
+        nivelPartida,
+        preguntaIniciadaEn:
+          !stored.completado && (stored.activeIndex ?? -1) >= 0 ? ahora : undefined,
+        reloj,
+        lockedMunicipios:
+          stored.dificultadReto === 'facil'
+            ? new Set<MunicipioId>(stored.lockedMunicipios ?? [])
+            : undefined
+      }
+    : createInitialQuizState()
+
+  return {
+    ...current,
+    modo: stored.modo ?? current.modo,
+    colorMode: stored.colorMode ?? current.colorMode,
+    dificultadReto: stored.dificultadReto ?? current.dificultadReto,
+    tipoPregunta: stored.tipoPregunta ?? current.tipoPregunta,
+    nivelGeografico: stored.nivelGeografico ?? current.nivelGeografico,
+    soundEnabled: stored.soundEnabled ?? current.soundEnabled,
+    theme: stored.theme ?? current.theme,
+    historial: stored.historial ?? current.historial,
+    ajustesTiempo,
+    penalizacionesPista: stored.penalizacionesPista ?? current.penalizacionesPista,
+    ...selection,
+    ...quiz
+  }
+}
 
-    set({
-      selectedProvinces: updatedProvinces,
-      selectedCommunities: updatedCommunities
-    })
-  },
-  setSelectedProvinces: (provincias) => {
-    if (!provincias.length) return
-    set({
-      selectedProvinces: unique(provincias),
-      selectedCommunities: ensureCommunitiesFromProvinces(provincias)
-    })
-  },
-  clearCelebration: () => set({ celebration: undefined }),
-  registrarTiempoAgotado: () => {
-    const {
-      preguntas,
-      activeIndex,
-      completado,
-      mapaEstados,
-      aciertos,
-      fallos,
-      dificultadReto,
-      lockedMunicipios
-    } = get()
-    if (preguntas.length === 0 || activeIndex < 0 || completado) return
-    const pregunta = preguntas[activeIndex]
-    if (pregunta.estado !== 'pendiente') return
-
-    const updatedPreguntas = [...preguntas]
-    const updatedMapa: MapStatus = { ...mapaEstados, [pregunta.municipioId]: 'fallida' }
-    const updatedLocked =
-      dificultadReto === 'facil'
-        ? new Set([...(lockedMunicipios ?? new Set()), pregunta.municipioId])
-        : lockedMunicipios
-
-    updatedPreguntas[activeIndex] = {
-      ...pregunta,
-      estado: 'fallida'
+export const useGameStore = create<GameState>()(
+  persist(
+    (set, get) => ({
+      modo: 'estudio',
+      colorMode: 'por-provincia',
+      dificultadReto: 'dificil',
+      tipoPregunta: 'localizar',
+      nivelGeografico: 'municipio',
+      soundEnabled: true,
+      theme: 'oscuro',
+      selectedCommunities: [DEFAULT_COMMUNITY_ID],
+      selectedProvinces: defaultProvinceSelection.length ? defaultProvinceSelection : [],
+      historial: {},
+      ajustesTiempo: DEFAULT_AJUSTES_TIEMPO,
+      penalizacionesPista: DEFAULT_PENALIZACIONES_PISTA,
+      ...createInitialQuizState(),
+      startQuiz: ({ dificultad, municipios, nivel = 'municipio', reto }) => {
+        if (!municipios.length) return
+        const { dificultadReto, tipoPregunta, historial, ajustesTiempo } = get()
+        // Capitales, entidades y localidades son preguntas sobre municipios: en otros niveles
+        // se localiza
+        const tipo =
+          nivel !== 'municipio' &&
+          (tipoPregunta === 'capital' || tipoPregunta === 'entidad' || tipoPregunta === 'localidad')
+            ? 'localizar'
+            : tipoPregunta
+        // Todo el azar de la partida sale de la semilla: con el mismo reto, mismas preguntas
+        const random = crearGenerador(reto?.semilla ?? nuevaSemilla())
+
+        const recintos = recintosDeMunicipios(nivel, municipiosParaTipo(tipo, municipios))
+        if (!recintos.length) return
+        const pool =
+          dificultad === 'repaso' && nivel === 'municipio'
+            ? seleccionarParaRepaso(recintos, historial, REPASO_LIMITE, Date.now())
+            : shuffle(recintos, random)
+        const limit =
+          dificultad === 'reto-10'
+            ? Math.min(10, pool.length)
+            : dificultad === 'reto-provincia'
+              ? pool.length
+              : pool.length
+
+        const selected = pool.slice(0, limit)
+        const preguntas = selected.map((recinto) => crearPregunta(tipo, nivel, recinto, random))
+
+        const ahora = Date.now()
+        set({
+          modo: 'reto',
+          dificultad,
+          ...createQuiz(preguntas, { dificultadReto, ahora }),
+          correctBlinkId: undefined,
+          celebration: undefined,
+          partidaIniciadaEn: ahora,
+          nivelPartida: nivel,
+          reloj: { ...ajustesTiempo },
+          reto
+        })
+      },
+      marcarMunicipio: (municipioId) => {
+        const state = get()
+        const pregunta = state.preguntas[state.activeIndex]
+        if (!pregunta || pregunta.tipo === 'nombrar' || pregunta.tipo === 'localidad') return
+
+        const { nivelPartida } = state
+        const cambios = aplicarRespuesta(state, {
+          correcta: municipioId === pregunta.municipioId,
+          ahora: Date.now(),
+          distanciaKm: distanciaEntreRecintos(nivelPartida, municipioId, pregunta.municipioId),
+          marcado: municipioId,
+          detalle: { respuesta: municipioId }
+        })
+        if (!cambios) return
+        set(cambios)
+        if (cambios.completado) archivarPartida(get())
+      },
+      marcarEntidad: (entidad) => {
+        const state = get()
+        const pregunta = state.preguntas[state.activeIndex]
+        if (pregunta?.tipo !== 'localidad') return
+
+        const correcta = entidad.id === pregunta.entidadId
+        const objetivo = pregunta.entidadId ? entidadById.get(pregunta.entidadId) : undefined
+        // En el mapa se colorea el municipio de la localidad, que es lo que se repasa después
+        const cambios = aplicarRespuesta(state, {
+          correcta,
+          ahora: Date.now(),
+          distanciaKm: correcta
+            ? 0
+            : objetivo?.coordenadas && entidad.coordenadas
+              ? distanciaKm(entidad.coordenadas, objetivo.coordenadas)
+              : undefined,
+          detalle: { respuestaEntidad: entidad.nombre }
+        })
+        if (!cambios) return
+        set(cambios)
+        if (cambios.completado) archivarPartida(get())
+      },
+      responderNombre: (texto) => {
+        const state = get()
+        const pregunta = state.preguntas[state.activeIndex]
+        if (pregunta?.tipo !== 'nombrar') return false
+
+        const correcta = coincideNombre(texto, pregunta.nombre, {
+          bilingue: esNombreBilingue(state.nivelPartida, pregunta.municipioId)
+        })
+        const cambios = aplicarRespuesta(
+          state,
+          { correcta, ahora: Date.now(), detalle: { respuestaTexto: texto } },
+          { senalarCorrecta: false }
+        )
+        if (!cambios) return false
+        set(cambios)
+        if (cambios.completado) archivarPartida(get())
+        return correcta
+      },
+      saltarPregunta: () => {
+        const state = get()
+        const anterior = estadoQuiz(state)
+        const siguiente = skip(anterior, Date.now(), reglasQuiz(state))
+        if (siguiente === anterior) return
+        set({ ...siguiente, celebration: undefined, correctBlinkId: undefined })
+      },
+      resetQuiz: () => set((state) => ({ ...state, ...createInitialQuizState() })),
+      setModo: (modo) => {
+        if (modo === 'estudio') {
+          set((state) => ({
+            ...state,
+            modo,
+            ...createInitialQuizState()
+          }))
+        } else {
+          set({ modo })
+        }
+      },
+      setColorMode: (mode) => set({ colorMode: mode }),
+      setDificultadReto: (dificultad) =>
+        set((state) => ({
+          dificultadReto: dificultad,
+          lockedMunicipios:
+            dificultad === 'facil'
+              ? new Set(
+                  state.preguntas
+                    .filter((pregunta) => pregunta.estado !== 'pendiente')
+                    .map((pregunta) => pregunta.municipioId)
+                )
+              : undefined
+        })),
+      setTipoPregunta: (tipo) => set({ tipoPregunta: tipo }),
+      setNivelGeografico: (nivel) => set({ nivelGeografico: nivel }),
+      toggleSound: () => set((state) => ({ soundEnabled: !state.soundEnabled })),
+      toggleTheme: () =>
+        set((state) => ({
+          theme: state.theme === 'oscuro' ? 'claro' : 'oscuro'
+        })),
+      setSelectedCommunities: (communities) => {
+        const validCommunities = communities.length ? communities : [DEFAULT_COMMUNITY_ID]
+        const newProvinces = unique(
+          validCommunities.flatMap(
+            (comunidadId) => provincesByCommunity.get(comunidadId) ?? []
+          )
+        )
+        set({
+          selectedCommunities: validCommunities,
+          selectedProvinces: newProvinces.length ? newProvinces : defaultProvinceSelection
+        })
+      },
+      toggleCommunity: (communityId) => {
+        const { selectedCommunities, selectedProvinces } = get()
+        const currentCommunities = new Set(selectedCommunities)
+
+        if (currentCommunities.has(communityId)) {
+          if (currentCommunities.size === 1) return
+          currentCommunities.delete(communityId)
+          const remainingCommunities = Array.from(currentCommunities)
+          const provincesToRemove = provincesByCommunity.get(communityId) ?? []
+          const filteredProvinces = selectedProvinces.filter(
+            (provinciaId) => !provincesToRemove.includes(provinciaId)
+          )
+
+          set({
+            selectedCommunities: remainingCommunities,
+            selectedProvinces:
+              filteredProvinces.length > 0
+                ? filteredProvinces
+                : provincesByCommunity.get(remainingCommunities[0]) ?? filteredProvinces
+          })
+          return
+        }
+
+        const provincesToAdd = provincesByCommunity.get(communityId) ?? []
+        set({
+          selectedCommunities: [...selectedCommunities, communityId],
+          selectedProvinces: unique([...selectedProvinces, ...provincesToAdd])
+        })
+      },
+      toggleProvince: (provinciaId) => {
+        const { selectedProvinces, selectedCommunities } = get()
+        const province = provinceById.get(provinciaId)
+        if (!province) return
+
+        const isSelected = selectedProvinces.includes(provinciaId)
+        if (isSelected) {
+          if (selectedProvinces.length === 1) return
+          const updatedProvinces = selectedProvinces.filter((id) => id !== provinciaId)
+
+          const provincesOfCommunity = provincesByCommunity.get(province.comunidadId) ?? []
+          const stillHasProvince = updatedProvinces.some((id) => provincesOfCommunity.includes(id))
+          const updatedCommunities = stillHasProvince
+            ? selectedCommunities
+            : selectedCommunities.filter((id) => id !== province.comunidadId)
+
+          set({
+            selectedProvinces: updatedProvinces,
+            selectedCommunities: updatedCommunities.length
+              ? updatedCommunities
+              : ensureCommunitiesFromProvinces(updatedProvinces)
+          })
+          return
+        }
+
+        const updatedProvinces = unique([...selectedProvinces, provinciaId])
+        const updatedCommunities = selectedCommunities.includes(province.comunidadId)
+          ? selectedCommunities
+          : [...selectedCommunities, province.comunidadId]
+
+        set({
+          selectedProvinces: updatedProvinces,
+          selectedCommunities: updatedCommunities
+        })
+      },
+      setSelectedProvinces: (provincias) => {
+        if (!provincias.length) return
+        set({
+          selectedProvinces: unique(provincias),
+          selectedCommunities: ensureCommunitiesFromProvinces(provincias)
+        })
+      },
+      // Aplica una selección externa (p. ej. la de un enlace) descartando ids desconocidos
+      setSelection: ({ communities = [], provinces = [] }) => {
+        const validProvinces = unique(provinces.filter((provinciaId) => provinceById.has(provinciaId)))
+        const validCommunities = unique(
+          communities.filter((comunidadId) => provincesByCommunity.has(comunidadId))
+        )
+
+        if (!validProvinces.length) {
+          if (validCommunities.length) get().setSelectedCommunities(validCommunities)
+          return
+        }
+
+        set({
+          selectedProvinces: validProvinces,
+          selectedCommunities: unique([
+            ...validCommunities,
+            ...ensureCommunitiesFromProvinces(validProvinces)
+          ])
+        })
+      },
+      clearCelebration: () => set({ celebration: undefined }),
+      registrarTiempoAgotado: () => {
+        const state = get()
+        const { historial, nivelPartida } = state
+        const pregunta = state.preguntas[state.activeIndex]
+        const anterior = estadoQuiz(state)
+        const ahora = Date.now()
+        const siguiente = timeout(anterior, ahora, reglasQuiz(state))
+        if (siguiente === anterior) return
+
+        set({
+          ...siguiente,
+          celebration: undefined,
+          correctBlinkId: undefined,
+          historial: actualizarHistorial(historial, nivelPartida, pregunta.municipioId, {
+            correcta: false,
+            ahora
+          })
+        })
+        if (siguiente.completado) archivarPartida(get())
+      },
+      setAjustesTiempo: (ajustes) =>
+        set((state) => {
+          const siguiente = { ...state.ajustesTiempo, ...ajustes }
+          return {
+            ajustesTiempo: {
+              modo: siguiente.modo,
+              limitePregunta: clamp(Math.round(siguiente.limitePregunta), 5, 120),
+              limitePartida: clamp(Math.round(siguiente.limitePartida), 30, 900)
+            }
+          }
+        }),
+      togglePausa: () => {
+        const { reloj, completado, activeIndex, preguntaIniciadaEn, partidaIniciadaEn } = get()
+        if (!reloj || completado || activeIndex < 0) return
+        const ahora = Date.now()
+        if (!reloj.pausadoEn) {
+          set({ reloj: { ...reloj, pausadoEn: ahora } })
+          return
+        }
+        // Al reanudar se desplazan los inicios para que el tiempo en pausa no cuente
+        const pausaMs = ahora - reloj.pausadoEn
+        set({
+          reloj: { ...reloj, pausadoEn: undefined },
+          preguntaIniciadaEn: preguntaIniciadaEn ? preguntaIniciadaEn + pausaMs : undefined,
+          partidaIniciadaEn: partidaIniciadaEn ? partidaIniciadaEn + pausaMs : undefined
+        })
+      },
+      comprobarTiempo: (ahora = Date.now()) => {
+        const state = get()
+        const { reloj, completado, activeIndex } = state
+        if (!reloj || reloj.pausadoEn || completado || activeIndex < 0) return
+        if (tiempoRestanteMs(state, ahora) !== 0) return
+
+        if (reloj.modo !== 'cuenta-atras') {
+          state.registrarTiempoAgotado()
+          return
+        }
+        // Se acabó la cuenta atrás: las preguntas sin contestar quedan pendientes
+        set({
+          activeIndex: -1,
+          completado: true,
+          celebration: undefined,
+          correctBlinkId: undefined,
+          preguntaIniciadaEn: undefined
+        })
+        archivarPartida(get())
+      },
+      setPenalizacionesPista: (penalizaciones) =>
+        set({
+          penalizacionesPista: Array.from({ length: NIVELES_PISTA }, (_, index) =>
+            clamp(Math.round(penalizaciones[index] ?? 0), 0, 100)
+          )
+        }),
+      pedirPista: () => {
+        const { preguntas, activeIndex, completado, reloj, nivelPartida } = get()
+        if (preguntas.length === 0 || activeIndex < 0 || completado || reloj?.pausadoEn) return 0
+        // Las pistas (provincia, vecinos, zona) solo tienen sentido para municipios
+        if (nivelPartida !== 'municipio') return 0
+        const pregunta = preguntas[activeIndex]
+        if (pregunta.estado !== 'pendiente') return 0
+        const pistas = Math.min(NIVELES_PISTA, (pregunta.pistas ?? 0) + 1)
+        if (pistas === pregunta.pistas) return pistas
+
+        const updatedPreguntas = [...preguntas]
+        updatedPreguntas[activeIndex] = { ...pregunta, pistas }
+        set({ preguntas: updatedPreguntas })
+        return pistas
+      }
+    }),
+    {
+      name: GAME_STORAGE_KEY,
+      version: GAME_STORAGE_VERSION,
+      storage: createVersionedStorage<PersistedGameState>(),
+      partialize: partializeGameState,
+      migrate: (persisted, version) =>
+        runMigrations(gameMigrations, persisted, version, GAME_STORAGE_VERSION) as PersistedGameState,
+      merge: mergePersistedState
     }
-
-    const nextIndex = updatedPreguntas.findIndex(
-      (q, idx) => idx > activeIndex && q.estado === 'pendiente'
-    )
-    const newCompleted = nextIndex === -1
-
-    set({
-      preguntas: updatedPreguntas,
-      activeIndex: newCompleted ? -1 : nextIndex,
-      aciertos,
-      fallos: fallos + 1,
-      completado: newCompleted,
-      mapaEstados: updatedMapa,
-      lockedMunicipios: dificultadReto === 'facil' ? updatedLocked : lockedMunicipios,
-      celebration: undefined,
-      correctBlinkId: undefined
-    })
-  }
-}))
+  )
+)
 
 export const municipiosInfo = spanishMunicipiosInfo
 export const municipiosById = spanishMunicipiosById
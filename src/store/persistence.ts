@@ -0,0 +1,47 @@
+import { createJSONStorage, type PersistStorage } from 'zustand/middleware'
+
+type SerializedSet = {
+  __set: unknown[]
+}
+
+export type PersistedRecord = Record<string, unknown>
+
+export type Migration = (state: PersistedRecord) => PersistedRecord
+
+const isSerializedSet = (value: unknown): value is SerializedSet =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as { __set?: unknown }).__set)
+
+// JSON no sabe representar Set: se guarda como { __set: [...] } y se reconstruye al leer
+const replacer = (_key: string, value: unknown) =>
+  value instanceof Set ? { __set: Array.from(value) } : value
+
+const reviver = (_key: string, value: unknown) =>
+  isSerializedSet(value) ? new Set(value.__set) : value
+
+export const createVersionedStorage = <S,>(): PersistStorage<S> | undefined =>
+  createJSONStorage<S>(() => window.localStorage, { replacer, reviver })
+
+const isRecord = (value: unknown): value is PersistedRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Aplica en orden las migraciones pendientes desde `fromVersion`.
+ * La migración con clave N transforma el estado de la versión N - 1 a la N.
+ */
+export const runMigrations = (
+  migrations: Record<number, Migration>,
+  persisted: unknown,
+  fromVersion: number,
+  toVersion: number
+): PersistedRecord => {
+  let state: PersistedRecord = isRecord(persisted) ? { ...persisted } : {}
+  for (let version = fromVersion + 1; version <= toVersion; version += 1) {
+    const migration = migrations[version]
+    if (migration) {
+      state = migration(state)
+    }
+  }
+  return state
+}
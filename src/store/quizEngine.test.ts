@@ -0,0 +1,316 @@
+import { describe, expect, it } from 'vitest'
+import {
+  QUESTION_TIME_LIMIT,
+  answer,
+  createQuiz,
+  nextQuestion,
+  preguntaActiva,
+  skip,
+  timeout,
+  type QuizQuestion,
+  type QuizState,
+  type ReglasQuiz
+} from './quizEngine'
+import { PUNTOS_MAXIMOS } from '../utils/scoring'
+
+const INICIO = 1_000_000
+
+const pregunta = (municipioId: string): QuizQuestion => ({
+  id: `q-${municipioId}`,
+  tipo: 'localizar',
+  municipioId,
+  nombre: municipioId,
+  estado: 'pendiente'
+})
+
+const nuevaPartida = (
+  ids = ['a', 'b', 'c'],
+  dificultadReto: ReglasQuiz['dificultadReto'] = 'dificil'
+) => createQuiz(ids.map(pregunta), { dificultadReto, ahora: INICIO })
+
+const reglas = (cambios: Partial<ReglasQuiz> = {}): ReglasQuiz => ({
+  dificultadReto: 'dificil',
+  reloj: { modo: 'por-pregunta', limitePregunta: 20, limitePartida: 120 },
+  penalizacionesPista: [10, 20, 30],
+  ...cambios
+})
+
+const acertar = (state: QuizState, ahora = INICIO, cambios?: Partial<ReglasQuiz>) =>
+  answer(
+    state,
+    { correcta: true, ahora, distanciaKm: 0, marcado: preguntaActiva(state)?.municipioId },
+    reglas(cambios)
+  )
+
+const fallar = (state: QuizState, marcado = 'z', cambios?: Partial<ReglasQuiz>) =>
+  answer(state, { correcta: false, ahora: INICIO, distanciaKm: 1000, marcado }, reglas(cambios))
+
+describe('createQuiz', () => {
+  it('empieza en la primera pregunta con el marcador a cero', () => {
+    const state = nuevaPartida()
+    expect(state).toMatchObject({
+      activeIndex: 0,
+      aciertos: 0,
+      fallos: 0,
+      puntos: 0,
+      completado: false,
+      mapaEstados: {},
+      preguntaIniciadaEn: INICIO
+    })
+    expect(state.lockedMunicipios).toBeUndefined()
+    expect(preguntaActiva(state)?.municipioId).toBe('a')
+  })
+
+  it('prepara los bloqueos solo en fácil', () => {
+    expect(nuevaPartida(['a'], 'facil').lockedMunicipios).toEqual(new Set())
+  })
+
+  it('da por terminada una partida sin preguntas', () => {
+    const state = nuevaPartida([])
+    expect(state.completado).toBe(true)
+    expect(state.activeIndex).toBe(-1)
+    expect(state.preguntaIniciadaEn).toBeUndefined()
+    expect(preguntaActiva(state)).toBeUndefined()
+  })
+})
+
+describe('nextQuestion', () => {
+  const preguntas = (estados: QuizQuestion['estado'][]) =>
+    estados.map((estado, index) => ({ ...pregunta(String(index)), estado }))
+
+  it('busca la siguiente pendiente a partir de la indicada', () => {
+    expect(nextQuestion(preguntas(['correcta', 'pendiente', 'pendiente']), 0)).toBe(1)
+    expect(nextQuestion(preguntas(['correcta', 'fallida', 'pendiente']), 0)).toBe(2)
+  })
+
+  it('vuelve al principio para recuperar las saltadas', () => {
+    expect(nextQuestion(preguntas(['pendiente', 'correcta', 'correcta']), 2)).toBe(0)
+  })
+
+  it('devuelve la misma si es la única pendiente y -1 si no queda ninguna', () => {
+    expect(nextQuestion(preguntas(['correcta', 'pendiente', 'fallida']), 1)).toBe(1)
+    expect(nextQuestion(preguntas(['correcta', 'fallida']), 1)).toBe(-1)
+    expect(nextQuestion([], -1)).toBe(-1)
+  })
+})
+
+describe('answer', () => {
+  it('puntúa un acierto, colorea el recinto y pasa a la siguiente pregunta', () => {
+    const state = acertar(nuevaPartida(), INICIO + 5000)
+
+    expect(state.preguntas[0]).toMatchObject({ estado: 'correcta', tiempoMs: 5000 })
+    expect(state.aciertos).toBe(1)
+    expect(state.fallos).toBe(0)
+    expect(state.puntos).toBe(state.preguntas[0].puntos)
+    expect(state.mapaEstados).toEqual({ a: 'correcta' })
+    expect(state.activeIndex).toBe(1)
+    expect(state.preguntaIniciadaEn).toBe(INICIO + 5000)
+  })
+
+  it('premia la rapidez: responder al instante vale el máximo', () => {
+    const rapido = acertar(nuevaPartida())
+    const lento = acertar(nuevaPartida(), INICIO + QUESTION_TIME_LIMIT * 1000)
+    expect(rapido.puntos).toBe(PUNTOS_MAXIMOS)
+    expect(lento.puntos).toBe(PUNTOS_MAXIMOS / 2)
+  })
+
+  it('marca en rojo el recinto equivocado y en verde el correcto', () => {
+    const state = fallar(nuevaPartida())
+
+    expect(state.preguntas[0]).toMatchObject({ estado: 'fallida', distanciaKm: 1000 })
+    expect(state.fallos).toBe(1)
+    expect(state.mapaEstados).toEqual({ z: 'fallida', a: 'correcta' })
+    expect(state.activeIndex).toBe(1)
+  })
+
+  it('da puntos parciales a un fallo cercano y ninguno sin distancia', () => {
+    const cerca = answer(
+      nuevaPartida(),
+      { correcta: false, ahora: INICIO, distanciaKm: 5, marcado: 'z' },
+      reglas()
+    )
+    const sinDistancia = answer(nuevaPartida(), { correcta: false, ahora: INICIO }, reglas())
+
+    expect(cerca.puntos).toBeGreaterThan(0)
+    expect(cerca.puntos).toBeLessThan(PUNTOS_MAXIMOS)
+    expect(sinDistancia.puntos).toBe(0)
+  })
+
+  it('colorea la pregunta como fallida si no se marcó ningún recinto', () => {
+    const state = answer(
+      nuevaPartida(),
+      { correcta: false, ahora: INICIO, detalle: { respuestaTexto: 'Toledo' } },
+      reglas()
+    )
+    expect(state.mapaEstados).toEqual({ a: 'fallida' })
+    expect(state.preguntas[0].respuestaTexto).toBe('Toledo')
+  })
+
+  it('guarda en la pregunta lo que se respondió', () => {
+    const state = answer(
+      nuevaPartida(),
+      { correcta: false, ahora: INICIO, marcado: 'z', detalle: { respuesta: 'z' } },
+      reglas()
+    )
+    expect(state.preguntas[0].respuesta).toBe('z')
+  })
+
+  it('descuenta las pistas usadas', () => {
+    const inicial = nuevaPartida()
+    const conPistas: QuizState = {
+      ...inicial,
+      preguntas: inicial.preguntas.map((item, index) =>
+        index === 0 ? { ...item, pistas: 2 } : item
+      )
+    }
+    expect(acertar(conPistas).puntos).toBe(PUNTOS_MAXIMOS * 0.7)
+  })
+
+  it('no cambia nada en pausa', () => {
+    const state = nuevaPartida()
+    const reloj = { modo: 'por-pregunta' as const, limitePregunta: 20, limitePartida: 120 }
+    expect(acertar(state, INICIO, { reloj: { ...reloj, pausadoEn: INICIO } })).toBe(state)
+  })
+
+  it('no modifica el estado recibido', () => {
+    const state = nuevaPartida()
+    acertar(state)
+    expect(state.preguntas[0].estado).toBe('pendiente')
+    expect(state.mapaEstados).toEqual({})
+    expect(state.activeIndex).toBe(0)
+  })
+})
+
+describe('bloqueos', () => {
+  it('en fácil bloquea el recinto preguntado tras un acierto', () => {
+    const state = acertar(nuevaPartida(['a', 'b'], 'facil'), INICIO, { dificultadReto: 'facil' })
+    expect(state.lockedMunicipios).toEqual(new Set(['a']))
+  })
+
+  it('en fácil bloquea también el recinto marcado por error', () => {
+    const state = fallar(nuevaPartida(['a', 'b'], 'facil'), 'z', { dificultadReto: 'facil' })
+    expect(state.lockedMunicipios).toEqual(new Set(['a', 'z']))
+  })
+
+  it('acumula los bloqueos de las preguntas anteriores', () => {
+    const facil = { dificultadReto: 'facil' as const }
+    const primera = fallar(nuevaPartida(['a', 'b', 'c'], 'facil'), 'z', facil)
+    const segunda = acertar(primera, INICIO, facil)
+    expect(segunda.lockedMunicipios).toEqual(new Set(['a', 'z', 'b']))
+    expect(primera.lockedMunicipios).toEqual(new Set(['a', 'z']))
+  })
+
+  it('en difícil no bloquea nada', () => {
+    expect(fallar(nuevaPartida()).lockedMunicipios).toBeUndefined()
+    expect(acertar(nuevaPartida()).lockedMunicipios).toBeUndefined()
+  })
+})
+
+describe('timeout', () => {
+  it('cuenta la pregunta como fallo sin puntos y pasa a la siguiente', () => {
+    const state = timeout(nuevaPartida(), INICIO + 20_000, reglas())
+
+    expect(state.preguntas[0]).toMatchObject({ estado: 'fallida', puntos: 0, tiempoMs: 20_000 })
+    expect(state.fallos).toBe(1)
+    expect(state.puntos).toBe(0)
+    expect(state.mapaEstados).toEqual({ a: 'fallida' })
+    expect(state.activeIndex).toBe(1)
+    expect(state.preguntaIniciadaEn).toBe(INICIO + 20_000)
+  })
+
+  it('sin límite por pregunta anota el tiempo de referencia por defecto', () => {
+    const state = timeout(
+      nuevaPartida(),
+      INICIO,
+      reglas({ reloj: { modo: 'sin-limite', limitePregunta: 45, limitePartida: 120 } })
+    )
+    expect(state.preguntas[0].tiempoMs).toBe(QUESTION_TIME_LIMIT * 1000)
+  })
+
+  it('en fácil bloquea el recinto que no se encontró', () => {
+    const facil = reglas({ dificultadReto: 'facil' })
+    const state = timeout(nuevaPartida(['a', 'b'], 'facil'), INICIO, facil)
+    expect(state.lockedMunicipios).toEqual(new Set(['a']))
+  })
+
+  it('termina la partida en muerte súbita', () => {
+    const state = timeout(
+      nuevaPartida(),
+      INICIO,
+      reglas({ reloj: { modo: 'muerte-subita', limitePregunta: 10, limitePartida: 120 } })
+    )
+    expect(state.completado).toBe(true)
+    expect(state.activeIndex).toBe(-1)
+  })
+
+  it('no hace nada con la partida terminada', () => {
+    const state = timeout(nuevaPartida(['a']), INICIO, reglas())
+    expect(state.completado).toBe(true)
+    expect(timeout(state, INICIO, reglas())).toBe(state)
+  })
+})
+
+describe('skip', () => {
+  it('pasa a la siguiente pregunta y deja la actual pendiente', () => {
+    const state = skip(nuevaPartida(), INICIO + 3000, reglas())
+
+    expect(state.activeIndex).toBe(1)
+    expect(state.preguntas[0].estado).toBe('pendiente')
+    expect(state.preguntaIniciadaEn).toBe(INICIO + 3000)
+    expect(state.fallos).toBe(0)
+  })
+
+  it('vuelve a la pregunta saltada cuando se han jugado las demás', () => {
+    let state = skip(nuevaPartida(), INICIO, reglas())
+    state = acertar(state)
+    expect(state.activeIndex).toBe(2)
+    state = acertar(state)
+    expect(state.activeIndex).toBe(0)
+    state = acertar(state)
+    expect(state.completado).toBe(true)
+    expect(state.aciertos).toBe(3)
+  })
+
+  it('no cambia nada si es la única pendiente o la partida está en pausa', () => {
+    const ultima = acertar(acertar(nuevaPartida()))
+    expect(skip(ultima, INICIO, reglas())).toBe(ultima)
+
+    const state = nuevaPartida()
+    const reloj = { modo: 'por-pregunta' as const, limitePregunta: 20, limitePartida: 120 }
+    expect(skip(state, INICIO, reglas({ reloj: { ...reloj, pausadoEn: INICIO } }))).toBe(state)
+  })
+})
+
+describe('fin de la partida', () => {
+  it('termina al responder la última pregunta', () => {
+    const state = fallar(acertar(acertar(nuevaPartida())))
+
+    expect(state.completado).toBe(true)
+    expect(state.activeIndex).toBe(-1)
+    expect(state.preguntaIniciadaEn).toBeUndefined()
+    expect(state.aciertos).toBe(2)
+    expect(state.fallos).toBe(1)
+    expect(state.puntos).toBe(
+      state.preguntas.reduce((total, item) => total + (item.puntos ?? 0), 0)
+    )
+  })
+
+  it('en muerte súbita termina con el primer fallo y deja el resto pendiente', () => {
+    const muerteSubita = {
+      reloj: { modo: 'muerte-subita' as const, limitePregunta: 10, limitePartida: 120 }
+    }
+    const trasAcierto = acertar(nuevaPartida(), INICIO, muerteSubita)
+    expect(trasAcierto.completado).toBe(false)
+
+    const state = fallar(trasAcierto, 'z', muerteSubita)
+    expect(state.completado).toBe(true)
+    expect(state.activeIndex).toBe(-1)
+    expect(state.preguntas[2].estado).toBe('pendiente')
+  })
+
+  it('ignora las respuestas una vez terminada', () => {
+    const state = acertar(nuevaPartida(['a']))
+    expect(state.completado).toBe(true)
+    expect(answer(state, { correcta: true, ahora: INICIO }, reglas())).toBe(state)
+  })
+})
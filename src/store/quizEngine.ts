@@ -0,0 +1,241 @@
+import type { MunicipioId, RespuestaEstado } from '../types/municipio'
+import { aplicarPenalizacionPistas, puntuarRespuesta } from '../utils/scoring'
+
+// Tiempo límite por pregunta por defecto (segundos)
+export const QUESTION_TIME_LIMIT = 20
+
+export type ModoTiempo = 'por-pregunta' | 'cuenta-atras' | 'sin-limite' | 'muerte-subita'
+
+export type AjustesTiempo = {
+  modo: ModoTiempo
+  // Segundos por pregunta en 'por-pregunta' y 'muerte-subita'
+  limitePregunta: number
+  // Segundos para toda la partida en 'cuenta-atras'
+  limitePartida: number
+}
+
+// Reloj de la partida en curso: los ajustes se fijan al empezar para que cambiarlos no la altere
+export type RelojPartida = AjustesTiempo & {
+  pausadoEn?: number
+}
+
+// 'capital' y 'entidad' se contestan marcando el municipio a partir de un enunciado;
+// 'localidad' pide situar una entidad de población y puntúa el punto más cercano al clic
+export type TipoPregunta =
+  | 'localizar'
+  | 'nombrar'
+  | 'opciones'
+  | 'capital'
+  | 'entidad'
+  | 'localidad'
+
+export type QuizQuestion = {
+  id: string
+  tipo: TipoPregunta
+  municipioId: MunicipioId
+  nombre: string
+  // Texto de la pregunta cuando no basta con el nombre (capitales y entidades)
+  enunciado?: string
+  estado: RespuestaEstado
+  respuesta?: MunicipioId
+  respuestaTexto?: string
+  opciones?: MunicipioId[]
+  // Preguntas de localidad: entidad que hay que situar y nombre de la que se marcó
+  entidadId?: string
+  respuestaEntidad?: string
+  tiempoMs?: number
+  distanciaKm?: number
+  puntos?: number
+  pistas?: number
+}
+
+export type MapStatus = Record<MunicipioId, RespuestaEstado>
+
+export type DifficultyLevel = 'facil' | 'dificil'
+
+/**
+ * Estado de una partida. El motor no sabe de mapas ni de datos: recibe las respuestas ya
+ * evaluadas y lleva la cuenta de preguntas, puntos, bloqueos y del orden en que se juegan.
+ */
+export type QuizState = {
+  preguntas: QuizQuestion[]
+  activeIndex: number
+  aciertos: number
+  fallos: number
+  puntos: number
+  completado: boolean
+  mapaEstados: MapStatus
+  // En fácil, recintos que ya no se pueden marcar
+  lockedMunicipios?: Set<MunicipioId>
+  preguntaIniciadaEn?: number
+}
+
+export type ReglasQuiz = {
+  dificultadReto: DifficultyLevel
+  reloj?: RelojPartida
+  penalizacionesPista: number[]
+}
+
+export type Respuesta = {
+  correcta: boolean
+  ahora: number
+  distanciaKm?: number
+  // Recinto marcado en el mapa: si no es el correcto se colorea como fallo y, en fácil, se bloquea
+  marcado?: MunicipioId
+  // Lo que contestó el jugador, tal y como se guarda en la pregunta
+  detalle?: Pick<QuizQuestion, 'respuesta' | 'respuestaTexto' | 'respuestaEntidad'>
+}
+
+const tieneLimitePorPregunta = (reloj?: RelojPartida) =>
+  reloj?.modo === 'por-pregunta' || reloj?.modo === 'muerte-subita'
+
+// Sin límite por pregunta la rapidez se sigue premiando con la referencia por defecto
+export const limitePuntuacionMs = (reloj?: RelojPartida) =>
+  (reloj && tieneLimitePorPregunta(reloj) ? reloj.limitePregunta : QUESTION_TIME_LIMIT) * 1000
+
+export const createQuiz = (
+  preguntas: QuizQuestion[],
+  { dificultadReto, ahora }: { dificultadReto: DifficultyLevel; ahora: number }
+): QuizState => ({
+  preguntas,
+  activeIndex: preguntas.length ? 0 : -1,
+  aciertos: 0,
+  fallos: 0,
+  puntos: 0,
+  completado: preguntas.length === 0,
+  mapaEstados: {},
+  lockedMunicipios: dificultadReto === 'facil' ? new Set<MunicipioId>() : undefined,
+  preguntaIniciadaEn: preguntas.length ? ahora : undefined
+})
+
+/**
+ * Índice de la siguiente pregunta pendiente después de `desde`, volviendo al principio para
+ * recuperar las que se saltaron. Devuelve `desde` si es la única pendiente y -1 si no queda
+ * ninguna.
+ */
+export const nextQuestion = (preguntas: QuizQuestion[], desde: number) => {
+  for (let paso = 1; paso <= preguntas.length; paso += 1) {
+    const index = (desde + paso + preguntas.length) % preguntas.length
+    if (preguntas[index].estado === 'pendiente') return index
+  }
+  return -1
+}
+
+// Pregunta que se puede contestar ahora mismo, si la hay
+export const preguntaActiva = (state: QuizState) => {
+  if (state.completado || state.activeIndex < 0) return undefined
+  const pregunta = state.preguntas[state.activeIndex]
+  return pregunta?.estado === 'pendiente' ? pregunta : undefined
+}
+
+// En muerte súbita el primer fallo termina la partida
+const terminaPartida = (
+  reloj: RelojPartida | undefined,
+  estado: RespuestaEstado,
+  nextIndex: number
+) => nextIndex === -1 || (estado === 'fallida' && reloj?.modo === 'muerte-subita')
+
+const bloquear = (
+  state: QuizState,
+  reglas: ReglasQuiz,
+  ids: MunicipioId[]
+): Set<MunicipioId> | undefined =>
+  reglas.dificultadReto === 'facil'
+    ? new Set([...(state.lockedMunicipios ?? new Set<MunicipioId>()), ...ids])
+    : undefined
+
+// Sustituye la pregunta activa por la ya contestada y pasa a la siguiente pendiente
+const cerrarPregunta = (
+  state: QuizState,
+  reglas: ReglasQuiz,
+  {
+    respondida,
+    mapaEstados,
+    bloqueados,
+    ahora
+  }: {
+    respondida: QuizQuestion
+    mapaEstados: MapStatus
+    bloqueados: MunicipioId[]
+    ahora: number
+  }
+): QuizState => {
+  const preguntas = [...state.preguntas]
+  preguntas[state.activeIndex] = respondida
+  const nextIndex = nextQuestion(preguntas, state.activeIndex)
+  const completado = terminaPartida(reglas.reloj, respondida.estado, nextIndex)
+  const correcta = respondida.estado === 'correcta'
+
+  return {
+    ...state,
+    preguntas,
+    activeIndex: completado ? -1 : nextIndex,
+    aciertos: correcta ? state.aciertos + 1 : state.aciertos,
+    fallos: correcta ? state.fallos : state.fallos + 1,
+    puntos: state.puntos + (respondida.puntos ?? 0),
+    completado,
+    mapaEstados,
+    lockedMunicipios: bloquear(state, reglas, bloqueados),
+    preguntaIniciadaEn: completado ? undefined : ahora
+  }
+}
+
+/**
+ * Contesta la pregunta activa. Devuelve el mismo estado si no hay pregunta pendiente o la
+ * partida está en pausa.
+ */
+export const answer = (state: QuizState, respuesta: Respuesta, reglas: ReglasQuiz): QuizState => {
+  const pregunta = preguntaActiva(state)
+  if (!pregunta || reglas.reloj?.pausadoEn) return state
+
+  const { correcta, ahora, distanciaKm, marcado, detalle } = respuesta
+  const estado: RespuestaEstado = correcta ? 'correcta' : 'fallida'
+  const tiempoMs = state.preguntaIniciadaEn ? ahora - state.preguntaIniciadaEn : undefined
+  const limiteMs = limitePuntuacionMs(reglas.reloj)
+  const puntos = aplicarPenalizacionPistas(
+    puntuarRespuesta({ correcta, distanciaKm, tiempoMs, limiteMs }),
+    pregunta.pistas ?? 0,
+    reglas.penalizacionesPista
+  )
+  // Si se marcó otro recinto, ese queda como fallo y el correcto se señala en verde
+  const fallado = !correcta && marcado !== undefined && marcado !== pregunta.municipioId
+  const mapaEstados: MapStatus = fallado
+    ? { ...state.mapaEstados, [marcado]: 'fallida', [pregunta.municipioId]: 'correcta' }
+    : { ...state.mapaEstados, [pregunta.municipioId]: estado }
+
+  return cerrarPregunta(state, reglas, {
+    respondida: { ...pregunta, ...detalle, estado, tiempoMs, distanciaKm, puntos },
+    mapaEstados,
+    bloqueados: fallado ? [pregunta.municipioId, marcado] : [pregunta.municipioId],
+    ahora
+  })
+}
+
+// Se agotó el tiempo de la pregunta activa: cuenta como fallo sin puntos
+export const timeout = (state: QuizState, ahora: number, reglas: ReglasQuiz): QuizState => {
+  const pregunta = preguntaActiva(state)
+  if (!pregunta) return state
+
+  return cerrarPregunta(state, reglas, {
+    respondida: {
+      ...pregunta,
+      estado: 'fallida',
+      tiempoMs: limitePuntuacionMs(reglas.reloj),
+      puntos: 0
+    },
+    mapaEstados: { ...state.mapaEstados, [pregunta.municipioId]: 'fallida' },
+    bloqueados: [pregunta.municipioId],
+    ahora
+  })
+}
+
+/**
+ * Deja la pregunta activa pendiente y pasa a la siguiente; vuelve a salir cuando se hayan
+ * jugado las demás. Si es la única pendiente, no cambia nada.
+ */
+export const skip = (state: QuizState, ahora: number, reglas: ReglasQuiz): QuizState => {
+  if (!preguntaActiva(state) || reglas.reloj?.pausadoEn) return state
+  const nextIndex = nextQuestion(state.preguntas, state.activeIndex)
+  if (nextIndex === state.activeIndex) return state
+  return { ...state, activeIndex: nextIndex, preguntaIniciadaEn: ahora }
+}
@@ -0,0 +1,131 @@
+import type { AjustesTiempo, DifficultyLevel, TipoPregunta } from './gameStore'
+import type {
+  ComunidadId,
+  MunicipioId,
+  NivelDificultad,
+  NivelGeografico,
+  ProvinciaId,
+  RespuestaEstado
+} from '../types/municipio'
+
+export type RespuestaRegistrada = {
+  municipioId: MunicipioId
+  nombre: string
+  enunciado?: string
+  tipo: TipoPregunta
+  estado: RespuestaEstado
+  respuesta?: MunicipioId
+  respuestaTexto?: string
+  // Nombre de la entidad marcada en las preguntas de localidad
+  respuestaEntidad?: string
+  tiempoMs?: number
+  distanciaKm?: number
+  puntos?: number
+  pistas?: number
+}
+
+export type TipoReto =
+  | 'reto-10'
+  | 'reto-provincia'
+  | 'mas-poblados'
+  | 'reto-total'
+  | 'repaso'
+  | 'fallos'
+
+// Las partidas de estudio no son ningún reto
+export const tipoDeReto = (
+  dificultad: NivelDificultad,
+  masPoblados?: number
+): TipoReto | undefined => {
+  if (masPoblados) return 'mas-poblados'
+  return dificultad === 'estudio' ? undefined : dificultad
+}
+
+/** Partida terminada tal y como se guarda en el historial local. */
+export type RegistroPartida = {
+  id: string
+  fecha: number
+  duracionMs?: number
+  dificultad: NivelDificultad
+  dificultadReto: DifficultyLevel
+  // Ausente en partidas guardadas antes de registrarlo
+  tipoReto?: TipoReto
+  tipoPregunta: TipoPregunta
+  // Ausente en partidas anteriores a los retos de provincias y comunidades
+  nivel?: NivelGeografico
+  tiempo?: AjustesTiempo
+  // Provincias del conjunto jugado; vacío cuando la partida abarca toda España
+  provincias: ProvinciaId[]
+  comunidades: ComunidadId[]
+  masPoblados?: number
+  codigoReto?: string
+  total: number
+  aciertos: number
+  fallos: number
+  puntos: number
+  preguntas: RespuestaRegistrada[]
+}
+
+const DB_NAME = 'clm-municipios'
+const DB_VERSION = 1
+const STORE_PARTIDAS = 'partidas'
+
+let conexion: Promise<IDBDatabase> | undefined
+
+const abrirBaseDatos = () => {
+  conexion ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_PARTIDAS)) {
+        db.createObjectStore(STORE_PARTIDAS, { keyPath: 'id' }).createIndex('fecha', 'fecha')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      conexion = undefined
+      reject(request.error)
+    }
+  })
+  return conexion
+}
+
+const historialDisponible = () => typeof indexedDB !== 'undefined'
+
+export const guardarPartida = async (registro: RegistroPartida) => {
+  if (!historialDisponible()) return
+  const db = await abrirBaseDatos()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PARTIDAS, 'readwrite')
+    transaction.objectStore(STORE_PARTIDAS).put(registro)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Devuelve las partidas de la más reciente a la más antigua
+export const leerPartidas = async (): Promise<RegistroPartida[]> => {
+  if (!historialDisponible()) return []
+  const db = await abrirBaseDatos()
+  const partidas = await new Promise<RegistroPartida[]>((resolve, reject) => {
+    const request = db
+      .transaction(STORE_PARTIDAS, 'readonly')
+      .objectStore(STORE_PARTIDAS)
+      .index('fecha')
+      .getAll()
+    request.onsuccess = () => resolve(request.result as RegistroPartida[])
+    request.onerror = () => reject(request.error)
+  })
+  return partidas.reverse()
+}
+
+export const borrarPartidas = async () => {
+  if (!historialDisponible()) return
+  const db = await abrirBaseDatos()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PARTIDAS, 'readwrite')
+    transaction.objectStore(STORE_PARTIDAS).clear()
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,17 @@
+import { parseUrlState, type UrlState } from '../utils/urlState'
+import { useGameStore } from './gameStore'
+
+export const readUrlState = (): UrlState =>
+  parseUrlState(window.location.search, window.location.hash)
+
+// Lleva al store la parte del enlace que le corresponde; el municipio y la cámara los gestiona App
+export const applyUrlStateToStore = (state: UrlState) => {
+  const store = useGameStore.getState()
+  if (state.comunidades || state.provincias) {
+    store.setSelection({ communities: state.comunidades, provinces: state.provincias })
+  }
+  if (state.colorMode) store.setColorMode(state.colorMode)
+  // Volver atrás o abrir un enlace no tira la partida en curso: mientras dure, el modo se ignora
+  const partidaEnCurso = store.preguntas.length > 0 && !store.completado
+  if (state.modo && state.modo !== store.modo && !partidaEnCurso) store.setModo(state.modo)
+}
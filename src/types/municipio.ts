@@ -4,7 +4,16 @@ export type ComunidadId = string
 
 export type ProvinciaId = string
 
-export type NivelDificultad = 'estudio' | 'reto-10' | 'reto-total' | 'reto-provincia'
+export type NivelDificultad =
+  | 'estudio'
+  | 'reto-10'
+  | 'reto-total'
+  | 'reto-provincia'
+  | 'repaso'
+  | 'fallos'
+
+// Unidad por la que pregunta el reto: de municipios a provincias o comunidades autónomas
+export type NivelGeografico = 'municipio' | 'provincia' | 'comunidad'
 
 export type Coordenadas = {
   lat: number
@@ -33,7 +42,22 @@ export type MunicipioInfo = {
   descripcion?: string
   coordenadas?: Coordenadas
   capital?: EntidadInfo
+  // Entidades singulares de población (núcleos) de ENTIDADES.csv
   entidades?: EntidadInfo[]
+  // Entidades de ámbito territorial inferior al municipio (EATIM) de su término
+  eatims?: EntidadInfo[]
+}
+
+/**
+ * Territorio de jurisdicción compartida (parzonería, comunidad de villa y tierra...): no
+ * pertenece a ningún término municipal, sino a varios municipios a la vez.
+ */
+export type TerritorioCompartido = {
+  id: string
+  nombre: string
+  municipios: MunicipioId[]
+  superficieKm2?: number
+  coordenadas?: Coordenadas
 }
 
 export type RespuestaEstado = 'pendiente' | 'correcta' | 'fallida'
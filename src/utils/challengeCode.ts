@@ -0,0 +1,113 @@
+import { provincias as provinciaSummaries } from '../data/spainDivisions'
+import type { DifficultyLevel, TipoPregunta } from '../store/gameStore'
+import type { NivelDificultad, NivelGeografico, ProvinciaId } from '../types/municipio'
+
+export type NivelRetoCompartible = Extract<NivelDificultad, 'reto-10' | 'reto-provincia' | 'reto-total'>
+
+/**
+ * Todo lo necesario para reconstruir una partida: con la misma definición el conjunto de
+ * municipios y el orden de las preguntas son idénticos. El repaso no se puede compartir
+ * porque depende del historial de cada alumno.
+ */
+export type DefinicionReto = {
+  semilla: number
+  dificultad: NivelRetoCompartible
+  provincias: ProvinciaId[]
+  masPoblados?: number
+  dificultadReto: DifficultyLevel
+  tipoPregunta: TipoPregunta
+  // Sin nivel se pregunta por municipios
+  nivel?: NivelGeografico
+}
+
+const VERSION = 'R1'
+const MAX_SEMILLA = 0xffffffff
+const MAX_POBLADOS = 1000
+
+const provinciaIdByCod = new Map(
+  provinciaSummaries.map((provincia) => [provincia.codProv.padStart(2, '0'), provincia.id])
+)
+const codByProvinciaId = new Map(
+  provinciaSummaries.map((provincia) => [provincia.id, provincia.codProv.padStart(2, '0')])
+)
+
+const CODIGO_DIFICULTAD: Record<DifficultyLevel, string> = { facil: 'F', dificil: 'D' }
+const CODIGO_TIPO: Record<TipoPregunta, string> = {
+  localizar: 'L',
+  nombrar: 'N',
+  opciones: 'O',
+  capital: 'C',
+  entidad: 'E',
+  localidad: 'D'
+}
+// Sufijo del tipo de pregunta; los códigos de municipios no llevan ninguno
+const CODIGO_NIVEL: Record<NivelGeografico, string> = { municipio: '', provincia: 'P', comunidad: 'C' }
+
+const invertir = <K extends string>(registro: Record<K, string>) =>
+  new Map(Object.entries(registro).map(([clave, valor]) => [valor as string, clave as K]))
+
+const dificultadPorCodigo = invertir(CODIGO_DIFICULTAD)
+const tipoPorCodigo = invertir(CODIGO_TIPO)
+const nivelPorCodigo = invertir(CODIGO_NIVEL)
+
+const codificarConjunto = (definicion: DefinicionReto) => {
+  if (definicion.masPoblados) return `M${definicion.masPoblados}`
+  if (definicion.dificultad === 'reto-10') return 'A10'
+  if (definicion.dificultad === 'reto-total') return 'T'
+  return 'P'
+}
+
+/**
+ * Código legible para dictar en clase, p. ej. `R1-1Z4K9Q-A10-F-L-1619`:
+ * versión, semilla, conjunto, dificultad, tipo de pregunta (con `P` o `C` detrás si el reto
+ * es de provincias o comunidades) y códigos INE de provincia.
+ */
+export const codificarReto = (definicion: DefinicionReto) =>
+  [
+    VERSION,
+    definicion.semilla.toString(36),
+    codificarConjunto(definicion),
+    CODIGO_DIFICULTAD[definicion.dificultadReto],
+    `${CODIGO_TIPO[definicion.tipoPregunta]}${CODIGO_NIVEL[definicion.nivel ?? 'municipio']}`,
+    definicion.provincias.map((provinciaId) => codByProvinciaId.get(provinciaId) ?? '').join('')
+  ]
+    .join('-')
+    .toUpperCase()
+
+export const decodificarReto = (codigo: string): DefinicionReto | undefined => {
+  const partes = codigo.trim().toUpperCase().replace(/\s+/g, '').split('-')
+  if (partes.length !== 6 || partes[0] !== VERSION) return undefined
+  const [, semillaTexto, conjunto, dificultadTexto, tipoTexto, provinciasTexto] = partes
+
+  if (!/^[0-9A-Z]{1,7}$/.test(semillaTexto)) return undefined
+  const semilla = parseInt(semillaTexto, 36)
+  if (!Number.isSafeInteger(semilla) || semilla > MAX_SEMILLA) return undefined
+
+  const dificultadReto = dificultadPorCodigo.get(dificultadTexto)
+  const tipoPregunta = tipoPorCodigo.get(tipoTexto.slice(0, 1))
+  const nivel = nivelPorCodigo.get(tipoTexto.slice(1))
+  if (!dificultadReto || !tipoPregunta || !nivel) return undefined
+
+  if (provinciasTexto.length % 2 !== 0) return undefined
+  const provincias: ProvinciaId[] = []
+  for (let index = 0; index < provinciasTexto.length; index += 2) {
+    const provinciaId = provinciaIdByCod.get(provinciasTexto.slice(index, index + 2))
+    if (!provinciaId) return undefined
+    provincias.push(provinciaId)
+  }
+
+  const base = {
+    semilla,
+    provincias,
+    dificultadReto,
+    tipoPregunta,
+    nivel: nivel === 'municipio' ? undefined : nivel
+  }
+  if (conjunto === 'A10') return { ...base, dificultad: 'reto-10' }
+  if (conjunto === 'T') return { ...base, dificultad: 'reto-total' }
+  if (conjunto === 'P') return provincias.length ? { ...base, dificultad: 'reto-provincia' } : undefined
+
+  const masPoblados = /^M\d+$/.test(conjunto) ? Number(conjunto.slice(1)) : NaN
+  if (!Number.isInteger(masPoblados) || masPoblados < 1 || masPoblados > MAX_POBLADOS) return undefined
+  return { ...base, dificultad: 'reto-provincia', masPoblados }
+}
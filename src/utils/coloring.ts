@@ -26,28 +26,133 @@ const stringHash = (value: string) => {
   return hash >>> 0
 }
 
-export const assignColors = (features: Feature<Geometry, Record<string, unknown>>[]) => {
+type Candidate = {
+  saturation: number
+  degree: number
+  hash: number
+  id: string
+  index: number
+}
+
+// Mayor saturación primero; a igualdad, mayor grado y después orden estable por hash/id
+const outranks = (a: Candidate, b: Candidate) => {
+  if (a.saturation !== b.saturation) return a.saturation > b.saturation
+  if (a.degree !== b.degree) return a.degree > b.degree
+  if (a.hash !== b.hash) return a.hash < b.hash
+  return a.id < b.id
+}
+
+const createCandidateHeap = () => {
+  const items: Candidate[] = []
+
+  const push = (candidate: Candidate) => {
+    items.push(candidate)
+    let index = items.length - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!outranks(items[index], items[parent])) break
+      ;[items[index], items[parent]] = [items[parent], items[index]]
+      index = parent
+    }
+  }
+
+  const pop = (): Candidate | undefined => {
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let index = 0
+      for (;;) {
+        const left = index * 2 + 1
+        const right = left + 1
+        let best = index
+        if (left < items.length && outranks(items[left], items[best])) best = left
+        if (right < items.length && outranks(items[right], items[best])) best = right
+        if (best === index) break
+        ;[items[index], items[best]] = [items[best], items[index]]
+        index = best
+      }
+    }
+    return top
+  }
+
+  return { push, pop, size: () => items.length }
+}
+
+const featureKey = (feature: Feature<Geometry, Record<string, unknown>>, index: number) =>
+  String(feature.id ?? feature.properties?.id ?? index)
+
+/**
+ * Colorea el mapa con DSatur: se colorea primero el municipio con más colores distintos
+ * entre sus vecinos ya coloreados, de modo que dos municipios limítrofes nunca comparten
+ * color. Entre los colores libres se elige el menos usado para repartir toda la paleta.
+ * El resultado solo depende de los ids y de la adyacencia, así que es determinista; si se
+ * calcula sobre el mapa completo, cualquier subconjunto visible sigue siendo válido.
+ */
+export const assignColors = (
+  features: Feature<Geometry, Record<string, unknown>>[],
+  neighbors: Map<string, string[]> = new Map()
+) => {
   const paletteSize = PALETTE.length
   if (paletteSize === 0) return new Map<string, string>()
 
-  const sortedIds = features
-    .map((feature, index) => {
-      const id = String(feature.id ?? feature.properties?.id ?? index)
-      return { id, hash: stringHash(id) }
-    })
-    .sort((a, b) => {
-      if (a.hash === b.hash) {
-        return a.id.localeCompare(b.id)
-      }
-      return a.hash - b.hash
+  const ids = features.map(featureKey)
+  const indexById = new Map(ids.map((id, index) => [id, index]))
+  const hashes = ids.map(stringHash)
+  const adjacency = ids.map((id) =>
+    (neighbors.get(id) ?? [])
+      .map((neighborId) => indexById.get(neighborId))
+      .filter((index): index is number => index !== undefined)
+  )
+
+  const colorIndex = new Array<number>(ids.length).fill(-1)
+  const neighborColors = ids.map(() => new Set<number>())
+  const usage = new Array<number>(paletteSize).fill(0)
+
+  const heap = createCandidateHeap()
+  const enqueue = (index: number) =>
+    heap.push({
+      saturation: neighborColors[index].size,
+      degree: adjacency[index].length,
+      hash: hashes[index],
+      id: ids[index],
+      index
     })
+  ids.forEach((_, index) => enqueue(index))
 
-  const colorById = new Map<string, string>()
-  for (let index = 0; index < sortedIds.length; index += 1) {
-    const { id } = sortedIds[index]
-    const color = PALETTE[index % paletteSize]
-    colorById.set(id, color)
+  while (heap.size() > 0) {
+    const candidate = heap.pop()
+    if (!candidate) break
+    const { index } = candidate
+    // Entradas obsoletas: el nodo ya tiene color o su saturación ha cambiado desde que se encoló
+    if (colorIndex[index] !== -1 || candidate.saturation !== neighborColors[index].size) continue
+
+    const offset = hashes[index] % paletteSize
+    let chosen = -1
+    let fallback = offset
+    for (let step = 0; step < paletteSize; step += 1) {
+      const color = (offset + step) % paletteSize
+      if (usage[color] < usage[fallback]) fallback = color
+      if (neighborColors[index].has(color)) continue
+      if (chosen === -1 || usage[color] < usage[chosen]) chosen = color
+    }
+    // Solo si todos los colores de la paleta rodean al municipio se acepta repetir uno
+    const color = chosen === -1 ? fallback : chosen
+
+    colorIndex[index] = color
+    usage[color] += 1
+
+    for (const neighbor of adjacency[index]) {
+      if (colorIndex[neighbor] !== -1 || neighborColors[neighbor].has(color)) continue
+      neighborColors[neighbor].add(color)
+      enqueue(neighbor)
+    }
   }
 
+  const colorById = new Map<string, string>()
+  ids.forEach((id, index) => {
+    colorById.set(id, PALETTE[colorIndex[index]])
+  })
+
   return colorById
 }
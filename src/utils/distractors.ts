@@ -0,0 +1,108 @@
+import type { Coordenadas, MunicipioInfo } from '../types/municipio'
+import { distanciaKm } from './geo'
+import { normalizarNombre } from './nameMatching'
+import type { Random } from './random'
+
+const CANDIDATOS_POR_CRITERIO = 6
+
+const nombreNormalizadoCache = new WeakMap<MunicipioInfo, string>()
+
+const nombreNormalizado = (municipio: MunicipioInfo) => {
+  let nombre = nombreNormalizadoCache.get(municipio)
+  if (nombre === undefined) {
+    nombre = normalizarNombre(municipio.nombre)
+    nombreNormalizadoCache.set(municipio, nombre)
+  }
+  return nombre
+}
+
+const pickRandom = <T,>(values: T[], random: Random) =>
+  values.length ? values[Math.floor(random() * values.length)] : undefined
+
+// Los `cantidad` elementos con menor valor de `clave`, sin ordenar la lista completa
+const menores = <T,>(values: T[], cantidad: number, clave: (value: T) => number) => {
+  const mejores: { value: T; score: number }[] = []
+  for (const value of values) {
+    const score = clave(value)
+    if (mejores.length === cantidad && score >= mejores[mejores.length - 1].score) continue
+    const index = mejores.findIndex((item) => score < item.score)
+    mejores.splice(index === -1 ? mejores.length : index, 0, { value, score })
+    if (mejores.length > cantidad) mejores.pop()
+  }
+  return mejores.map(({ value }) => value)
+}
+
+const tieneCoordenadas = (
+  municipio: MunicipioInfo
+): municipio is MunicipioInfo & { coordenadas: Coordenadas } => Boolean(municipio.coordenadas)
+
+const log10Poblacion = (municipio: MunicipioInfo) => Math.log10((municipio.poblacion ?? 0) + 1)
+
+/**
+ * Elige nombres de municipio verosímiles para acompañar al correcto: uno de la misma
+ * provincia, uno de sus vecinos (o, sin vecinos disponibles, de los más cercanos) y uno de
+ * población parecida, rellenando con la misma comunidad si alguno de los criterios no da
+ * candidatos. Los vecinos se pueden elegir aunque sean de otra comunidad.
+ */
+export const elegirDistractores = (
+  objetivo: MunicipioInfo,
+  municipios: MunicipioInfo[],
+  {
+    cantidad = 3,
+    random = Math.random,
+    vecinos = []
+  }: { cantidad?: number; random?: Random; vecinos?: MunicipioInfo[] } = {}
+): MunicipioInfo[] => {
+  const nombresUsados = new Set([nombreNormalizado(objetivo)])
+  const elegidos: MunicipioInfo[] = []
+
+  // Solo se compara dentro de la comunidad para que el coste no dependa del mapa completo
+  const candidatos = municipios.filter(
+    (municipio) => municipio.comunidad === objetivo.comunidad && municipio.id !== objetivo.id
+  )
+
+  const disponibles = <T extends MunicipioInfo>(lista: T[]) =>
+    lista.filter((municipio) => !nombresUsados.has(nombreNormalizado(municipio)))
+
+  const elegir = (lista: MunicipioInfo[]) => {
+    if (elegidos.length >= cantidad) return false
+    const municipio = pickRandom(disponibles(lista), random)
+    if (!municipio) return false
+    elegidos.push(municipio)
+    nombresUsados.add(nombreNormalizado(municipio))
+    return true
+  }
+
+  elegir(candidatos.filter((municipio) => municipio.provincia === objetivo.provincia))
+
+  const origen = objetivo.coordenadas
+  const conVecino = elegir(vecinos.filter((municipio) => municipio.id !== objetivo.id))
+  if (!conVecino && origen) {
+    elegir(
+      menores(
+        disponibles(candidatos.filter(tieneCoordenadas)),
+        CANDIDATOS_POR_CRITERIO,
+        (municipio) => distanciaKm(origen, municipio.coordenadas)
+      )
+    )
+  }
+
+  if (typeof objetivo.poblacion === 'number') {
+    const referencia = log10Poblacion(objetivo)
+    elegir(
+      menores(
+        disponibles(candidatos.filter((municipio) => typeof municipio.poblacion === 'number')),
+        CANDIDATOS_POR_CRITERIO,
+        (municipio) => Math.abs(log10Poblacion(municipio) - referencia)
+      )
+    )
+  }
+
+  while (elegidos.length < cantidad) {
+    const restantes = disponibles(candidatos)
+    if (!restantes.length) break
+    elegir(restantes)
+  }
+
+  return elegidos
+}
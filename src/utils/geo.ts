@@ -0,0 +1,33 @@
+import type { Coordenadas } from '../types/municipio'
+
+const RADIO_TIERRA_KM = 6371
+
+const toRadians = (grados: number) => (grados * Math.PI) / 180
+
+// Distancia ortodrómica (fórmula del semiverseno) entre dos puntos en kilómetros
+export const distanciaKm = (a: Coordenadas, b: Coordenadas) => {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLon = toRadians(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * RADIO_TIERRA_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Entidad con coordenadas más próxima a un punto, o undefined si ninguna tiene coordenadas
+export const entidadMasCercana = <T extends { coordenadas?: Coordenadas }>(
+  punto: Coordenadas,
+  entidades: T[]
+): T | undefined => {
+  let mejor: T | undefined
+  let mejorDistancia = Infinity
+  for (const entidad of entidades) {
+    if (!entidad.coordenadas) continue
+    const distancia = distanciaKm(punto, entidad.coordenadas)
+    if (distancia < mejorDistancia) {
+      mejor = entidad
+      mejorDistancia = distancia
+    }
+  }
+  return mejor
+}
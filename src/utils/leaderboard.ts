@@ -0,0 +1,78 @@
+import { tipoDeReto, type RegistroPartida, type TipoReto } from '../store/runHistory'
+import type { ComunidadId } from '../types/municipio'
+
+export type { TipoReto }
+
+// Región "toda España" para las partidas que no se limitan a unas provincias
+export const REGION_ESPANA = 'espana'
+
+export type FiltroPartidas = {
+  tipo?: TipoReto
+  region?: ComunidadId | typeof REGION_ESPANA
+}
+
+export type MejoresMarcas = {
+  partidas: number
+  mejorPuntos?: RegistroPartida
+  mejorPorcentaje?: RegistroPartida
+  // Solo entre las partidas en las que se contestaron todas las preguntas
+  masRapida?: RegistroPartida
+}
+
+// Las partidas guardadas sin tipo de reto lo deducen de la dificultad con la que empezaron
+export const tipoDePartida = (partida: RegistroPartida): TipoReto | undefined =>
+  partida.tipoReto ?? tipoDeReto(partida.dificultad, partida.masPoblados)
+
+// Una partida que acaba antes de tiempo (muerte súbita, cuenta atrás) deja preguntas pendientes
+export const partidaCompleta = (partida: RegistroPartida) =>
+  partida.preguntas.every((pregunta) => pregunta.estado !== 'pendiente')
+
+export const porcentajeAciertos = (partida: RegistroPartida) =>
+  partida.total ? Math.round((partida.aciertos / partida.total) * 100) : 0
+
+// Tiempo medio por pregunta respondida; undefined si la partida no guardó tiempos
+export const tiempoMedioMs = (partida: RegistroPartida) => {
+  const tiempos = partida.preguntas
+    .map((pregunta) => pregunta.tiempoMs)
+    .filter((tiempo): tiempo is number => typeof tiempo === 'number')
+  return tiempos.length ? tiempos.reduce((sum, tiempo) => sum + tiempo, 0) / tiempos.length : undefined
+}
+
+export const filtrarPartidas = (partidas: RegistroPartida[], filtro: FiltroPartidas) =>
+  partidas.filter((partida) => {
+    if (filtro.tipo && tipoDePartida(partida) !== filtro.tipo) return false
+    if (!filtro.region) return true
+    return filtro.region === REGION_ESPANA
+      ? partida.provincias.length === 0
+      : partida.comunidades.includes(filtro.region)
+  })
+
+// A igualdad de puntos gana el mayor porcentaje de aciertos y, después, la partida más antigua
+export const ordenarPorPuntos = (partidas: RegistroPartida[]) =>
+  [...partidas].sort(
+    (a, b) =>
+      b.puntos - a.puntos ||
+      porcentajeAciertos(b) - porcentajeAciertos(a) ||
+      a.fecha - b.fecha
+  )
+
+export const calcularMejoresMarcas = (partidas: RegistroPartida[]): MejoresMarcas => {
+  const marcas: MejoresMarcas = { partidas: partidas.length }
+  for (const partida of partidas) {
+    if (!marcas.mejorPuntos || partida.puntos > marcas.mejorPuntos.puntos) {
+      marcas.mejorPuntos = partida
+    }
+    if (
+      !marcas.mejorPorcentaje ||
+      porcentajeAciertos(partida) > porcentajeAciertos(marcas.mejorPorcentaje)
+    ) {
+      marcas.mejorPorcentaje = partida
+    }
+    const tiempo = partidaCompleta(partida) ? tiempoMedioMs(partida) : undefined
+    const mejorTiempo = marcas.masRapida ? tiempoMedioMs(marcas.masRapida) : undefined
+    if (tiempo !== undefined && (mejorTiempo === undefined || tiempo < mejorTiempo)) {
+      marcas.masRapida = partida
+    }
+  }
+  return marcas
+}
@@ -0,0 +1,99 @@
+import { slugify } from './slug'
+
+// Artículos que pueden preceder (o seguir tras coma) al nombre oficial en castellano,
+// catalán/valenciano, gallego y aranés
+const ARTICULOS = new Set([
+  'el',
+  'la',
+  'los',
+  'las',
+  'l',
+  'lo',
+  'els',
+  'les',
+  'es',
+  'sa',
+  'ses',
+  'o',
+  'a',
+  'os',
+  'as'
+])
+
+const quitarArticulos = (tokens: string[]) => {
+  let inicio = 0
+  while (inicio < tokens.length - 1 && ARTICULOS.has(tokens[inicio])) {
+    inicio += 1
+  }
+  return tokens.slice(inicio)
+}
+
+/**
+ * Normaliza un nombre para compararlo: sin tildes, sin mayúsculas, sin signos y sin
+ * artículo inicial. "Rozas de Madrid, Las" y "las rozas de madrid" dan el mismo resultado.
+ */
+export const normalizarNombre = (valor: string) => {
+  const [principal, ...sufijos] = valor.split(',')
+  const reordenado = sufijos.length ? `${sufijos.join(' ')} ${principal}` : principal
+  const tokens = slugify(reordenado).split('-').filter(Boolean)
+  return quitarArticulos(tokens).join(' ')
+}
+
+/**
+ * Formas aceptadas para un nombre oficial. Las denominaciones bilingües con barra
+ * ("Alacant/Alicante") admiten cada parte; las que usan guion ("Vitoria-Gasteiz") solo
+ * cuando `bilingue` es verdadero, porque en el resto de España el guion forma parte del
+ * nombre ("Casas-Ibáñez").
+ */
+export const variantesNombre = (nombre: string, { bilingue = false } = {}) => {
+  const variantes = new Set<string>([normalizarNombre(nombre)])
+  for (const parte of nombre.split('/')) {
+    variantes.add(normalizarNombre(parte))
+    if (bilingue && parte.includes('-')) {
+      for (const subparte of parte.split('-')) {
+        variantes.add(normalizarNombre(subparte))
+      }
+    }
+  }
+  variantes.delete('')
+  return Array.from(variantes)
+}
+
+export const distanciaEdicion = (a: string, b: string) => {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previa = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    const actual = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      const coste = a[i - 1] === b[j - 1] ? 0 : 1
+      actual[j] = Math.min(previa[j] + 1, actual[j - 1] + 1, previa[j - 1] + coste)
+    }
+    previa = actual
+  }
+  return previa[b.length]
+}
+
+// Erratas toleradas según la longitud del nombre: ninguna en nombres muy cortos
+export const toleranciaErratas = (longitud: number) => {
+  if (longitud <= 3) return 0
+  if (longitud <= 6) return 1
+  if (longitud <= 12) return 2
+  return 3
+}
+
+export const coincideNombre = (
+  respuesta: string,
+  nombre: string,
+  opciones: { bilingue?: boolean } = {}
+) => {
+  const normalizada = normalizarNombre(respuesta)
+  if (!normalizada) return false
+
+  return variantesNombre(nombre, opciones).some(
+    (variante) =>
+      distanciaEdicion(normalizada, variante) <= toleranciaErratas(variante.length)
+  )
+}
@@ -0,0 +1,19 @@
+export type Random = () => number
+
+// Semilla de 32 bits: cabe en un código de reto corto y basta para barajar una partida
+export const nuevaSemilla = () => crypto.getRandomValues(new Uint32Array(1))[0]
+
+/**
+ * Generador mulberry32: con la misma semilla produce siempre la misma secuencia en
+ * cualquier navegador, que es lo que permite repetir un reto exactamente.
+ */
+export const crearGenerador = (semilla: number): Random => {
+  let estado = semilla >>> 0
+  return () => {
+    estado = (estado + 0x6d2b79f5) >>> 0
+    let t = estado
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
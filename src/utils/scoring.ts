@@ -0,0 +1,51 @@
+export const PUNTOS_MAXIMOS = 1000
+
+// Distancia (km) a la que un fallo conserva ~37 % de la puntuación base de un fallo
+const DECAIMIENTO_DISTANCIA_KM = 30
+// Un fallo nunca puntúa más que esta fracción de un acierto
+const FRACCION_MAXIMA_FALLO = 0.6
+// Contestar al límite del tiempo conserva esta fracción de los puntos
+const FRACCION_MINIMA_TIEMPO = 0.5
+
+/**
+ * Puntos de una respuesta: un acierto vale el máximo y un fallo decae con la distancia
+ * al municipio correcto. En ambos casos se premia responder con tiempo de sobra.
+ */
+export const puntuarRespuesta = ({
+  correcta,
+  distanciaKm,
+  tiempoMs,
+  limiteMs
+}: {
+  correcta: boolean
+  distanciaKm?: number
+  tiempoMs?: number
+  limiteMs?: number
+}) => {
+  const base = correcta
+    ? 1
+    : typeof distanciaKm === 'number'
+      ? FRACCION_MAXIMA_FALLO * Math.exp(-distanciaKm / DECAIMIENTO_DISTANCIA_KM)
+      : 0
+
+  const fraccionRestante =
+    typeof tiempoMs === 'number' && typeof limiteMs === 'number' && limiteMs > 0
+      ? Math.max(0, Math.min(1, 1 - tiempoMs / limiteMs))
+      : 1
+  const factorTiempo = FRACCION_MINIMA_TIEMPO + (1 - FRACCION_MINIMA_TIEMPO) * fraccionRestante
+
+  return Math.round(PUNTOS_MAXIMOS * base * factorTiempo)
+}
+
+/**
+ * Resta a los puntos de una respuesta el porcentaje de cada pista usada: `penalizaciones[i]`
+ * es lo que cuesta la pista de nivel i + 1. Nunca baja de cero.
+ */
+export const aplicarPenalizacionPistas = (
+  puntos: number,
+  pistas: number,
+  penalizaciones: number[]
+) => {
+  const porcentaje = penalizaciones.slice(0, pistas).reduce((total, valor) => total + valor, 0)
+  return Math.round(puntos * Math.max(0, 1 - porcentaje / 100))
+}
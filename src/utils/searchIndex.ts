@@ -0,0 +1,127 @@
+import type { MunicipioId, MunicipioInfo } from '../types/municipio'
+import { distanciaEdicion, normalizarNombre, toleranciaErratas } from './nameMatching'
+
+export type TipoCoincidencia = 'municipio' | 'capital' | 'entidad'
+
+type EntradaIndice = {
+  municipioId: MunicipioId
+  texto: string
+  tipo: TipoCoincidencia
+  clave: string
+  palabras: string[]
+  poblacion: number
+}
+
+export type IndiceBusqueda = EntradaIndice[]
+
+export type ResultadoBusqueda = {
+  municipioId: MunicipioId
+  texto: string
+  tipo: TipoCoincidencia
+}
+
+const PRIORIDAD_TIPO: Record<TipoCoincidencia, number> = {
+  municipio: 0,
+  capital: 1,
+  entidad: 2
+}
+
+const crearEntrada = (
+  municipio: MunicipioInfo,
+  texto: string,
+  tipo: TipoCoincidencia
+): EntradaIndice | undefined => {
+  const clave = normalizarNombre(texto)
+  if (!clave) return undefined
+  return {
+    municipioId: municipio.id,
+    texto,
+    tipo,
+    clave,
+    palabras: clave.split(' '),
+    poblacion: municipio.poblacion ?? 0
+  }
+}
+
+/**
+ * Índice con el nombre de cada municipio, el de su capital (si es distinto) y el de sus
+ * entidades de población, todos normalizados con `normalizarNombre`.
+ */
+export const crearIndiceBusqueda = (municipios: MunicipioInfo[]): IndiceBusqueda => {
+  const indice: IndiceBusqueda = []
+  for (const municipio of municipios) {
+    const vistos = new Set<string>()
+    const candidatas: [string | undefined, TipoCoincidencia][] = [
+      [municipio.nombre, 'municipio'],
+      [municipio.capital?.nombre, 'capital'],
+      ...(municipio.entidades ?? []).map(
+        (entidad): [string, TipoCoincidencia] => [entidad.nombre, 'entidad']
+      )
+    ]
+    for (const [texto, tipo] of candidatas) {
+      if (!texto) continue
+      const entrada = crearEntrada(municipio, texto, tipo)
+      if (!entrada || vistos.has(entrada.clave)) continue
+      vistos.add(entrada.clave)
+      indice.push(entrada)
+    }
+  }
+  return indice
+}
+
+// Cuanto menor, mejor: exacto, prefijo, palabra que empieza igual, contiene y, por último, erratas
+const puntuarEntrada = (entrada: EntradaIndice, consulta: string) => {
+  if (entrada.clave === consulta) return 0
+  if (entrada.clave.startsWith(consulta)) return 1
+  if (entrada.palabras.some((palabra) => palabra.startsWith(consulta))) return 2
+  if (entrada.clave.includes(consulta)) return 3
+
+  const tolerancia = toleranciaErratas(consulta.length)
+  if (!tolerancia) return undefined
+  // Se compara también con el principio del nombre para tolerar erratas mientras se escribe
+  const distanciaPrefijo = distanciaEdicion(consulta, entrada.clave.slice(0, consulta.length))
+  const distancia =
+    Math.abs(entrada.clave.length - consulta.length) <= tolerancia
+      ? Math.min(distanciaPrefijo, distanciaEdicion(consulta, entrada.clave))
+      : distanciaPrefijo
+  return distancia <= tolerancia ? 4 + distancia : undefined
+}
+
+export const buscarEnIndice = (
+  indice: IndiceBusqueda,
+  consulta: string,
+  limite = 8
+): ResultadoBusqueda[] => {
+  const normalizada = normalizarNombre(consulta)
+  if (!normalizada) return []
+
+  const mejores = new Map<MunicipioId, { entrada: EntradaIndice; puntuacion: number }>()
+  for (const entrada of indice) {
+    const puntuacion = puntuarEntrada(entrada, normalizada)
+    if (puntuacion === undefined) continue
+    const previa = mejores.get(entrada.municipioId)
+    if (
+      !previa ||
+      puntuacion < previa.puntuacion ||
+      (puntuacion === previa.puntuacion &&
+        PRIORIDAD_TIPO[entrada.tipo] < PRIORIDAD_TIPO[previa.entrada.tipo])
+    ) {
+      mejores.set(entrada.municipioId, { entrada, puntuacion })
+    }
+  }
+
+  return Array.from(mejores.values())
+    .sort(
+      (a, b) =>
+        a.puntuacion - b.puntuacion ||
+        PRIORIDAD_TIPO[a.entrada.tipo] - PRIORIDAD_TIPO[b.entrada.tipo] ||
+        b.entrada.poblacion - a.entrada.poblacion ||
+        a.entrada.texto.localeCompare(b.entrada.texto, 'es')
+    )
+    .slice(0, limite)
+    .map(({ entrada }) => ({
+      municipioId: entrada.municipioId,
+      texto: entrada.texto,
+      tipo: entrada.tipo
+    }))
+}
@@ -0,0 +1,127 @@
+import type { MunicipioId, MunicipioInfo } from '../types/municipio'
+
+export type RegistroAprendizaje = {
+  vistas: number
+  aciertos: number
+  fallos: number
+  tiempoMedioMs?: number
+  // Respuestas con las que se calcula la media: las preguntas agotadas no tienen tiempo
+  respuestasConTiempo?: number
+  ultimaVez: number
+  caja: number
+  proximoRepaso: number
+}
+
+export type HistorialAprendizaje = Record<MunicipioId, RegistroAprendizaje>
+
+const DIA_MS = 24 * 60 * 60 * 1000
+
+// Sistema Leitner: cada acierto sube una caja y alarga el intervalo; un fallo devuelve a la caja 0
+const INTERVALOS_CAJA_DIAS = [0, 1, 2, 4, 8, 16, 32]
+const CAJA_MAXIMA = INTERVALOS_CAJA_DIAS.length - 1
+// Un fallo se vuelve a preguntar pasados unos minutos, no inmediatamente en la misma sesión
+const REINTENTO_FALLO_MS = 10 * 60 * 1000
+
+export const REPASO_LIMITE = 20
+
+export const registrarRespuesta = (
+  registro: RegistroAprendizaje | undefined,
+  { correcta, tiempoMs, ahora }: { correcta: boolean; tiempoMs?: number; ahora: number }
+): RegistroAprendizaje => {
+  const previo: RegistroAprendizaje = registro ?? {
+    vistas: 0,
+    aciertos: 0,
+    fallos: 0,
+    ultimaVez: ahora,
+    caja: 0,
+    proximoRepaso: ahora
+  }
+
+  const caja = correcta ? Math.min(previo.caja + 1, CAJA_MAXIMA) : 0
+  const proximoRepaso = correcta
+    ? ahora + INTERVALOS_CAJA_DIAS[caja] * DIA_MS
+    : ahora + REINTENTO_FALLO_MS
+
+  // Los registros anteriores al contador calculaban la media sobre todas las vistas
+  const conTiempoPrevias =
+    typeof previo.tiempoMedioMs === 'number' ? (previo.respuestasConTiempo ?? previo.vistas) : 0
+  const respuestasConTiempo =
+    typeof tiempoMs === 'number' ? conTiempoPrevias + 1 : conTiempoPrevias
+  const tiempoMedioMs =
+    typeof tiempoMs === 'number'
+      ? ((previo.tiempoMedioMs ?? 0) * conTiempoPrevias + tiempoMs) / respuestasConTiempo
+      : previo.tiempoMedioMs
+
+  return {
+    vistas: previo.vistas + 1,
+    aciertos: previo.aciertos + (correcta ? 1 : 0),
+    fallos: previo.fallos + (correcta ? 0 : 1),
+    tiempoMedioMs,
+    respuestasConTiempo,
+    ultimaVez: ahora,
+    caja,
+    proximoRepaso
+  }
+}
+
+const tasaFallo = (registro: RegistroAprendizaje) =>
+  registro.vistas > 0 ? registro.fallos / registro.vistas : 0
+
+const compararPorDebilidad = (
+  a: { municipio: MunicipioInfo; registro: RegistroAprendizaje },
+  b: { municipio: MunicipioInfo; registro: RegistroAprendizaje }
+) => {
+  if (a.registro.caja !== b.registro.caja) return a.registro.caja - b.registro.caja
+  const fallo = tasaFallo(b.registro) - tasaFallo(a.registro)
+  if (fallo !== 0) return fallo
+  if (a.registro.proximoRepaso !== b.registro.proximoRepaso) {
+    return a.registro.proximoRepaso - b.registro.proximoRepaso
+  }
+  return a.municipio.id.localeCompare(b.municipio.id)
+}
+
+/**
+ * Elige los municipios a repasar: primero los que ya tocan (de la caja más baja y con más
+ * fallos), después los que nunca se han preguntado y, si aún faltan, los más próximos a vencer.
+ */
+export const seleccionarParaRepaso = (
+  municipios: MunicipioInfo[],
+  historial: HistorialAprendizaje,
+  limite: number,
+  ahora: number
+): MunicipioInfo[] => {
+  const pendientes: { municipio: MunicipioInfo; registro: RegistroAprendizaje }[] = []
+  const futuros: { municipio: MunicipioInfo; registro: RegistroAprendizaje }[] = []
+  const nuevos: MunicipioInfo[] = []
+
+  for (const municipio of municipios) {
+    const registro = historial[municipio.id]
+    if (!registro) {
+      nuevos.push(municipio)
+    } else if (registro.proximoRepaso <= ahora) {
+      pendientes.push({ municipio, registro })
+    } else {
+      futuros.push({ municipio, registro })
+    }
+  }
+
+  pendientes.sort(compararPorDebilidad)
+  futuros.sort((a, b) => a.registro.proximoRepaso - b.registro.proximoRepaso)
+  nuevos.sort((a, b) => (b.poblacion ?? 0) - (a.poblacion ?? 0) || a.id.localeCompare(b.id))
+
+  return [
+    ...pendientes.map(({ municipio }) => municipio),
+    ...nuevos,
+    ...futuros.map(({ municipio }) => municipio)
+  ].slice(0, limite)
+}
+
+export const contarPendientes = (
+  municipios: MunicipioInfo[],
+  historial: HistorialAprendizaje,
+  ahora: number
+) =>
+  municipios.reduce((total, municipio) => {
+    const registro = historial[municipio.id]
+    return registro && registro.proximoRepaso <= ahora ? total + 1 : total
+  }, 0)
@@ -0,0 +1,77 @@
+import type { ColorMode, GameMode } from '../store/gameStore'
+import type { ComunidadId, MunicipioId, ProvinciaId } from '../types/municipio'
+
+export type MapCamera = {
+  lon: number
+  lat: number
+  zoom: number
+}
+
+/**
+ * Estado que se comparte por enlace. La selección, la paleta, el modo y el municipio van en la
+ * query; la cámara va en el hash (`#map=zoom/lat/lon`) porque cambia con cada movimiento.
+ */
+export type UrlState = {
+  comunidades?: ComunidadId[]
+  provincias?: ProvinciaId[]
+  colorMode?: ColorMode
+  modo?: GameMode
+  municipioId?: MunicipioId
+  camara?: MapCamera
+}
+
+const COLOR_MODES: ColorMode[] = ['colorido', 'por-provincia', 'por-comunidad', 'poblacion', 'altitud']
+const MODOS: GameMode[] = ['estudio', 'reto']
+
+const PARAMS = {
+  comunidades: 'ccaa',
+  provincias: 'prov',
+  colorMode: 'color',
+  modo: 'modo',
+  municipioId: 'm'
+} as const
+
+const leerLista = (valor: string | null) => {
+  const lista = (valor ?? '').split(',').map((item) => item.trim()).filter(Boolean)
+  return lista.length ? lista : undefined
+}
+
+const leerCamara = (hash: string): MapCamera | undefined => {
+  const match = hash.match(/map=(-?[\d.]+)\/(-?[\d.]+)\/(-?[\d.]+)/)
+  if (!match) return undefined
+  const [zoom, lat, lon] = match.slice(1).map(Number)
+  if (![zoom, lat, lon].every(Number.isFinite)) return undefined
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180 || zoom < 0 || zoom > 24) return undefined
+  return { lon, lat, zoom }
+}
+
+export const parseUrlState = (search: string, hash: string): UrlState => {
+  const params = new URLSearchParams(search)
+  const colorMode = params.get(PARAMS.colorMode)
+  const modo = params.get(PARAMS.modo)
+
+  return {
+    comunidades: leerLista(params.get(PARAMS.comunidades)),
+    provincias: leerLista(params.get(PARAMS.provincias)),
+    colorMode: COLOR_MODES.find((mode) => mode === colorMode),
+    modo: MODOS.find((mode) => mode === modo),
+    municipioId: params.get(PARAMS.municipioId) || undefined,
+    camara: leerCamara(hash)
+  }
+}
+
+// Se fija la precisión para que pequeños redondeos no generen URLs distintas
+export const serializeCamera = (camara: MapCamera) =>
+  `#map=${camara.zoom.toFixed(2)}/${camara.lat.toFixed(4)}/${camara.lon.toFixed(4)}`
+
+export const serializeUrlState = (state: Omit<UrlState, 'camara'>) => {
+  const params = new URLSearchParams()
+  if (state.comunidades?.length) params.set(PARAMS.comunidades, state.comunidades.join(','))
+  if (state.provincias?.length) params.set(PARAMS.provincias, state.provincias.join(','))
+  if (state.colorMode) params.set(PARAMS.colorMode, state.colorMode)
+  if (state.modo) params.set(PARAMS.modo, state.modo)
+  if (state.municipioId) params.set(PARAMS.municipioId, state.municipioId)
+  // Las comas de las listas se dejan sin escapar para que el enlace sea legible
+  const query = params.toString().replace(/%2C/g, ',')
+  return query ? `?${query}` : ''
+}
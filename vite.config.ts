@@ -1,8 +1,58 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Service worker que precachea la app, los datos (TopoJSON y CSV van dentro del bundle) y
+    // los glifos locales: tras la primera visita todo funciona sin conexión
+    VitePWA({
+      registerType: 'autoUpdate',
+      includeAssets: ['icon.svg', 'fonts/**/*.pbf'],
+      manifest: {
+        name: 'Municipios de España',
+        short_name: 'Municipios',
+        description: 'Aprende los municipios de España en un mapa interactivo',
+        lang: 'es',
+        start_url: '.',
+        scope: '.',
+        display: 'standalone',
+        background_color: '#0b1120',
+        theme_color: '#0b1120',
+        icons: [
+          {
+            src: 'icon.svg',
+            sizes: 'any',
+            type: 'image/svg+xml',
+            purpose: 'any'
+          }
+        ]
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png,pbf,json,csv}'],
+        // El bundle principal incluye la geometría de todos los municipios
+        maximumFileSizeToCacheInBytes: 30 * 1024 * 1024,
+        runtimeCaching: [
+          {
+            // Teselas raster opcionales: se guardan las que se han visto para poder reutilizarlas
+            urlPattern: ({ url }) => url.hostname.endsWith('cartodb-basemaps-a.global.ssl.fastly.net'),
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'basemap-tiles',
+              expiration: { maxEntries: 500, maxAgeSeconds: 30 * 24 * 60 * 60 }
+            }
+          }
+        ]
+      }
+    })
+  ],
   base: './',
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Los tests de datos cargan la geometría de todos los municipios
+    testTimeout: 30_000
+  }
 })